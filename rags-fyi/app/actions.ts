@@ -0,0 +1,22 @@
+'use server'
+
+import { explainRecommendation, getRecommendation, type Answers, type VendorVerdict } from "@/lib/questionnaire"
+import { getTablePage, getTableRows, type TablePage } from "@/lib/table-page"
+import { parseTableState } from "@/lib/table-state"
+import type { VendorData } from "@/lib/vendor-schema"
+import { getVendors } from "@/lib/vendors"
+
+/** The table page for `query`, a table URL query string (see `@/lib/table-state`). */
+export async function fetchTablePage(query: string): Promise<TablePage> {
+  return getTablePage(parseTableState(new URLSearchParams(query)))
+}
+
+/** Every row of the view described by `query`, or the whole catalogue with `fullDataset`, for exporting. */
+export async function fetchExportRows(query: string, fullDataset: boolean): Promise<VendorData[]> {
+  return fullDataset ? getVendors() : getTableRows(parseTableState(new URLSearchParams(query)))
+}
+
+/** Why each vendor is or is not recommended for the questionnaire `answers`. */
+export async function fetchVerdicts(answers: Answers): Promise<VendorVerdict[]> {
+  return explainRecommendation(await getVendors(), getRecommendation(answers))
+}
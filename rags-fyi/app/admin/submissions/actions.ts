@@ -0,0 +1,52 @@
+'use server'
+
+import { revalidatePath } from "next/cache"
+import { cookies } from "next/headers"
+import { redirect } from "next/navigation"
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_MAX_AGE,
+  createAdminSession,
+  isAdminSession,
+  isAdminToken,
+  reviewSubmission,
+  revokeAdminSessions
+} from "@/lib/submissions"
+
+const ADMIN_PATH = '/admin/submissions'
+
+export async function signIn(formData: FormData) {
+  if (!isAdminToken(formData.get('token'))) redirect(`${ADMIN_PATH}?denied=1`)
+
+  cookies().set(ADMIN_SESSION_COOKIE, createAdminSession() as string, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/admin',
+    maxAge: ADMIN_SESSION_MAX_AGE
+  })
+  redirect(ADMIN_PATH)
+}
+
+export async function signOut() {
+  if (await isAdminSession(cookies().get(ADMIN_SESSION_COOKIE)?.value)) await revokeAdminSessions()
+  cookies().delete({ name: ADMIN_SESSION_COOKIE, path: '/admin' })
+  redirect(ADMIN_PATH)
+}
+
+async function review(formData: FormData, status: 'approved' | 'rejected') {
+  if (!(await isAdminSession(cookies().get(ADMIN_SESSION_COOKIE)?.value))) throw new Error('Not authorized')
+  const id = formData.get('id')
+  if (typeof id !== 'string') throw new Error('Missing submission id')
+
+  await reviewSubmission(id, status)
+  revalidatePath('/', 'layout')
+}
+
+export async function approveSubmission(formData: FormData) {
+  await review(formData, 'approved')
+}
+
+export async function rejectSubmission(formData: FormData) {
+  await review(formData, 'rejected')
+}
@@ -0,0 +1,175 @@
+import type { Metadata } from "next"
+import { cookies } from "next/headers"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CellValue } from "@/components/cell-value"
+import { Footer } from "@/components/footer"
+import { Header } from "@/components/header"
+import { ADMIN_SESSION_COOKIE, isAdminSession, listSubmissions, type Submission } from "@/lib/submissions"
+import { diffVendors } from "@/lib/vendor-diff"
+import type { VendorData } from "@/lib/vendor-schema"
+import { getVendors } from "@/lib/vendors"
+import { approveSubmission, rejectSubmission, signIn, signOut } from "./actions"
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Moderation queue – RAGs.FYI',
+  robots: { index: false, follow: false }
+}
+
+type SubmissionsPageProps = {
+  /** Set after a sign-in with the wrong token. */
+  searchParams: { denied?: string }
+}
+
+export default async function SubmissionsPage({ searchParams }: SubmissionsPageProps) {
+  if (!process.env.ADMIN_TOKEN) {
+    return (
+      <div>
+        <Header />
+        <main className="container mx-auto p-4">
+          <h2 className="mb-4 text-3xl font-bold">Moderation queue</h2>
+          <p>Moderation is disabled. Set the <code>ADMIN_TOKEN</code> environment variable to sign in here.</p>
+        </main>
+        <Footer />
+      </div>
+    )
+  }
+  if (!(await isAdminSession(cookies().get(ADMIN_SESSION_COOKIE)?.value))) {
+    return (
+      <div>
+        <Header />
+        <main className="container mx-auto p-4">
+          <h2 className="mb-4 text-3xl font-bold">Moderation queue</h2>
+          <form action={signIn} className="flex max-w-md flex-col gap-2">
+            <label htmlFor="token" className="text-sm font-medium">Admin token</label>
+            <div className="flex gap-2">
+              <Input id="token" name="token" type="password" autoComplete="current-password" required />
+              <Button type="submit">Sign in</Button>
+            </div>
+            {searchParams.denied && <p className="text-sm text-destructive">That token is not valid.</p>}
+          </form>
+        </main>
+        <Footer />
+      </div>
+    )
+  }
+
+  const [submissions, vendors] = await Promise.all([listSubmissions(), getVendors()])
+  const pending = submissions.filter(submission => submission.status === 'pending')
+  const reviewed = submissions.filter(submission => submission.status !== 'pending')
+
+  return (
+    <div>
+      <Header />
+      <main className="container mx-auto p-4">
+        <div className="mb-2 flex items-baseline justify-between gap-4">
+          <h2 className="text-3xl font-bold">Moderation queue</h2>
+          <form action={signOut}>
+            <Button type="submit" size="sm" variant="ghost">Sign out</Button>
+          </form>
+        </div>
+        <p className="mb-8 text-muted-foreground">
+          Approving a submission writes it to <code>data/vendors/</code>; commit the change to publish it.
+        </p>
+
+        <h3 className="mb-4 text-xl font-semibold">Pending ({pending.length})</h3>
+        {pending.length === 0 && <p className="mb-8 text-muted-foreground">Nothing to review.</p>}
+        <div className="mb-12 space-y-6">
+          {pending.map(submission => (
+            <SubmissionCard
+              key={submission.id}
+              submission={submission}
+              current={vendors.find(vendor => vendor.slug === submission.vendor.slug)}
+              namesake={vendors.find(vendor => vendor.slug !== submission.vendor.slug && vendor.name.toLowerCase() === submission.vendor.name.toLowerCase())}
+            />
+          ))}
+        </div>
+
+        <h3 className="mb-4 text-xl font-semibold">Reviewed ({reviewed.length})</h3>
+        <ul className="space-y-1 text-sm">
+          {reviewed.map(submission => (
+            <li key={submission.id}>
+              <span className="font-medium">{submission.vendor.name}</span>{' '}
+              ({submission.kind === 'new' ? 'new vendor' : 'edit'}) — {submission.status} on{' '}
+              {submission.reviewedAt?.slice(0, 10)}
+            </li>
+          ))}
+        </ul>
+      </main>
+      <Footer />
+    </div>
+  )
+}
+
+type SubmissionCardProps = {
+  submission: Submission
+  /** The vendor as currently published, if it exists. */
+  current: VendorData | undefined
+  /** Another published vendor with the same name, which blocks approval. */
+  namesake: VendorData | undefined
+}
+
+function SubmissionCard({ submission, current, namesake }: SubmissionCardProps) {
+  const changes = diffVendors(current, submission.vendor)
+
+  return (
+    <section className="rounded-lg border p-4 shadow-sm">
+      <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2">
+        <h4 className="text-lg font-semibold">
+          {submission.kind === 'new' ? 'New vendor' : 'Edit'}: {submission.vendor.name}
+          <span className="ml-2 text-sm font-normal text-muted-foreground">{submission.vendor.slug}</span>
+        </h4>
+        <span className="text-sm text-muted-foreground">Submitted {submission.submittedAt.slice(0, 16).replace('T', ' ')} UTC</span>
+      </div>
+      {submission.kind === 'new' && current && (
+        <p className="mb-2 text-sm text-destructive">A vendor with this slug was published after this was submitted.</p>
+      )}
+      {namesake && (
+        <p className="mb-2 text-sm text-destructive">
+          {namesake.name} is already published as <code>{namesake.slug}</code>; this cannot be approved until one is renamed.
+        </p>
+      )}
+      {submission.note && <p className="mb-1 text-sm"><span className="font-medium">Note:</span> {submission.note}</p>}
+      {submission.contact && <p className="mb-1 text-sm"><span className="font-medium">Contact:</span> {submission.contact}</p>}
+
+      <div className="my-4 overflow-x-auto rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="bg-muted font-bold">Attribute</TableHead>
+              <TableHead className="bg-muted font-bold">Current</TableHead>
+              <TableHead className="bg-muted font-bold">Proposed</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changes.map(change => (
+              <TableRow key={change.column.key}>
+                <TableCell className="font-medium">{change.column.label}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  <CellValue column={change.column} value={change.before} />
+                </TableCell>
+                <TableCell>
+                  <CellValue column={change.column} value={change.after} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex gap-2">
+        <form action={approveSubmission}>
+          <input type="hidden" name="id" value={submission.id} />
+          <Button type="submit" size="sm" disabled={namesake !== undefined}>Approve</Button>
+        </form>
+        <form action={rejectSubmission}>
+          <input type="hidden" name="id" value={submission.id} />
+          <Button type="submit" size="sm" variant="outline">Reject</Button>
+        </form>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,112 @@
+/**
+ * `POST /api/submissions` — queue a new vendor or a correction to an existing one for moderation.
+ *
+ * Body: `{ kind: "new" | "edit", slug, vendor, note?, contact? }`, where `vendor` holds the proposed
+ * attributes in the same shape as a `data/vendors/*.json` file. Responds `201 { id }`, or `400` with
+ * the schema error for the first invalid field.
+ *
+ * The endpoint is unauthenticated and writes to disk, so it is bounded on every axis: the body size
+ * (`413`), the length of each field (`400`), submissions per client IP (`429`) and the number of
+ * submissions awaiting review (`503`).
+ */
+import { API_VERSION, errorResponse } from "@/lib/api"
+import { createRateLimiter, getClientIp } from "@/lib/rate-limit"
+import { createSubmission, listSubmissions } from "@/lib/submissions"
+import { columns, validateVendor, VendorValidationError, type VendorData } from "@/lib/vendor-schema"
+import { findNameConflict, getVendor } from "@/lib/vendors"
+
+const MAX_BODY_BYTES = 64 * 1024
+const MAX_TEXT_LENGTH = 2000
+const MAX_SLUG_LENGTH = 100
+const MAX_TAGS = 50
+const MAX_TAG_LENGTH = 100
+const MAX_PENDING_SUBMISSIONS = 200
+
+/** Only valid submissions count, so correcting a rejected form does not use up the allowance. */
+const SUBMISSIONS_PER_HOUR = 5
+const limiter = createRateLimiter(SUBMISSIONS_PER_HOUR, 60 * 60 * 1000)
+
+/** The request body as text, or `null` once it grows past `maxBytes`. */
+async function readBody(request: Request, maxBytes: number): Promise<string | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) return null
+  if (!request.body) return ''
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+/** The first field of `vendor` over the length limits, if any. */
+function findOversizedField(vendor: VendorData): string | undefined {
+  return columns.find(column => {
+    const value = vendor[column.key]
+    if (Array.isArray(value)) return value.length > MAX_TAGS || value.some(tag => tag.length > MAX_TAG_LENGTH)
+    return typeof value === 'string' && value.length > MAX_TEXT_LENGTH
+  })?.key
+}
+
+export async function POST(request: Request) {
+  const text = await readBody(request, MAX_BODY_BYTES)
+  if (text === null) return errorResponse(413, `Request body must be at most ${MAX_BODY_BYTES / 1024} KB`)
+
+  let body: Record<string, unknown>
+  try {
+    body = JSON.parse(text)
+  } catch {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+  if (typeof body !== 'object' || body === null) return errorResponse(400, 'Request body must be a JSON object')
+
+  const { kind, slug, vendor: raw, note = '', contact = '' } = body
+  if (kind !== 'new' && kind !== 'edit') return errorResponse(400, '"kind" must be "new" or "edit"')
+  if (typeof slug !== 'string' || slug.length > MAX_SLUG_LENGTH) {
+    return errorResponse(400, `"slug" must be a string of at most ${MAX_SLUG_LENGTH} characters`)
+  }
+  if (typeof note !== 'string' || typeof contact !== 'string' || note.length > MAX_TEXT_LENGTH || contact.length > MAX_TEXT_LENGTH) {
+    return errorResponse(400, `"note" and "contact" must be strings of at most ${MAX_TEXT_LENGTH} characters`)
+  }
+
+  let vendor
+  try {
+    vendor = validateVendor('submission', slug, raw)
+  } catch (error) {
+    if (error instanceof VendorValidationError) return errorResponse(400, error.message)
+    throw error
+  }
+  const oversized = findOversizedField(vendor)
+  if (oversized) {
+    return errorResponse(
+      400,
+      `"${oversized}" is too long: text is limited to ${MAX_TEXT_LENGTH} characters, and lists to ${MAX_TAGS} items of ${MAX_TAG_LENGTH}`
+    )
+  }
+
+  const existing = await getVendor(slug)
+  if (kind === 'new' && existing) return errorResponse(409, `A vendor with slug "${slug}" already exists`)
+  if (kind === 'edit' && !existing) return errorResponse(404, `Vendor "${slug}" not found`)
+  const conflict = await findNameConflict(vendor.name, slug)
+  if (conflict) return errorResponse(409, `A vendor named "${conflict.name}" already exists`)
+
+  if (!limiter.consume(getClientIp(request))) {
+    return errorResponse(429, `Too many submissions; at most ${SUBMISSIONS_PER_HOUR} are accepted per hour`)
+  }
+
+  const pending = (await listSubmissions()).filter(submission => submission.status === 'pending')
+  if (pending.length >= MAX_PENDING_SUBMISSIONS) {
+    return errorResponse(503, 'The moderation queue is full; please try again later')
+  }
+
+  const submission = await createSubmission({ kind, vendor, note, contact })
+  return Response.json({ apiVersion: API_VERSION, id: submission.id }, { status: 201 })
+}
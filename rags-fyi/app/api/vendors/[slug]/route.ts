@@ -0,0 +1,10 @@
+/** `GET /api/vendors/[slug]` — a single vendor with every attribute, or 404. */
+import { errorResponse, getColumnSchema, jsonResponse } from "@/lib/api"
+import { getVendor } from "@/lib/vendors"
+
+export async function GET(request: Request, { params }: { params: { slug: string } }) {
+  const vendor = await getVendor(params.slug)
+  if (!vendor) return errorResponse(404, `Vendor "${params.slug}" not found`)
+
+  return jsonResponse(request, { schema: getColumnSchema(), data: vendor })
+}
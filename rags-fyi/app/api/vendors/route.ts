@@ -0,0 +1,63 @@
+/**
+ * `GET /api/vendors` — the vendor catalogue as JSON.
+ *
+ * Accepts the same `q`, `sort`, `filters` and `w` query parameters as the table URL (see
+ * `@/lib/table-state`); with `w`, each vendor includes its `matchScore`. Also accepts:
+ * - `cols`: comma-separated column keys to include in each vendor (default: all)
+ * - `page` (1-based, default 1) and `pageSize` (default 50, max 100)
+ */
+import { errorResponse, getColumnSchema, jsonResponse } from "@/lib/api"
+import { queryVendors } from "@/lib/query"
+import { hasWeights, MATCH_SCORE_COLUMN } from "@/lib/scoring"
+import { parseTableState } from "@/lib/table-state"
+import { columns, type VendorData } from "@/lib/vendor-schema"
+import { getVendors } from "@/lib/vendors"
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 100
+
+function parsePositiveInt(value: string | null, fallback: number): number | null {
+  if (value === null) return fallback
+  return /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null
+}
+
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams
+
+  const page = parsePositiveInt(params.get('page'), 1)
+  const pageSize = parsePositiveInt(params.get('pageSize'), DEFAULT_PAGE_SIZE)
+  if (page === null) return errorResponse(400, '"page" must be a positive integer')
+  if (pageSize === null || pageSize > MAX_PAGE_SIZE) {
+    return errorResponse(400, `"pageSize" must be an integer between 1 and ${MAX_PAGE_SIZE}`)
+  }
+
+  const state = parseTableState(params)
+  const fields = params.has('cols') ? ['slug', ...state.selectedColumns] : ['slug', ...columns.map(col => col.key)]
+  if (hasWeights(state.weights)) fields.push(MATCH_SCORE_COLUMN.key)
+  const results = queryVendors(await getVendors(), state)
+
+  const total = results.length
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
+  const data = results
+    .slice((page - 1) * pageSize, page * pageSize)
+    .map(vendor => Object.fromEntries(fields.filter(key => key in vendor).map(key => [key, vendor[key]])) as VendorData)
+
+  const links: string[] = []
+  const pageUrl = (target: number) => {
+    const url = new URL(request.url)
+    url.searchParams.set('page', String(target))
+    return url.toString()
+  }
+  if (page < totalPages) links.push(`<${pageUrl(page + 1)}>; rel="next"`)
+  if (page > 1) links.push(`<${pageUrl(page - 1)}>; rel="prev"`)
+
+  return jsonResponse(
+    request,
+    {
+      schema: getColumnSchema(),
+      data,
+      pagination: { page, pageSize, total, totalPages }
+    },
+    links.length > 0 ? { 'Link': links.join(', ') } : {}
+  )
+}
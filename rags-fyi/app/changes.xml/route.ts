@@ -0,0 +1,46 @@
+/** `GET /changes.xml` — Atom feed of catalogue changes, one entry per vendor per dataset version. */
+import { describeChange, describeChangeSet, getChangelog } from "@/lib/changelog"
+
+/** How many change sets the feed includes. */
+const FEED_LENGTH = 50
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[char] as string)
+}
+
+export async function GET(request: Request) {
+  const origin = new URL(request.url).origin
+  const changelog = (await getChangelog()).slice(0, FEED_LENGTH)
+  const updated = changelog[0]?.date ?? new Date(0).toISOString()
+
+  const entries = changelog.map(changeSet => {
+    const link = changeSet.type === 'removed' ? `${origin}/` : `${origin}/vendors/${changeSet.vendor}`
+    const summary = changeSet.type === 'changed'
+      ? `<ul>${changeSet.changes.map(change => `<li>${escapeXml(describeChange(change))}</li>`).join('')}</ul>`
+      : `<p>${escapeXml(describeChangeSet(changeSet))}</p>`
+    return `  <entry>
+    <id>${escapeXml(`${origin}/vendors/${changeSet.vendor}#${changeSet.id}`)}</id>
+    <title>${escapeXml(`${changeSet.name}: ${describeChangeSet(changeSet)}`)}</title>
+    <updated>${changeSet.date}</updated>
+    <link href="${escapeXml(link)}"/>
+    <content type="html">${escapeXml(summary)}</content>
+  </entry>`
+  })
+
+  const feed = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(`${origin}/changes.xml`)}</id>
+  <title>RAGs.FYI – vendor changes</title>
+  <updated>${updated}</updated>
+  <link rel="self" href="${escapeXml(`${origin}/changes.xml`)}"/>
+  <link href="${escapeXml(`${origin}/`)}"/>
+${entries.join('\n')}
+</feed>
+`
+  return new Response(feed, {
+    headers: {
+      'Content-Type': 'application/atom+xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=300, s-maxage=3600'
+    }
+  })
+}
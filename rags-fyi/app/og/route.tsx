@@ -0,0 +1,47 @@
+/**
+ * `GET /og` — the Open Graph image for a shared table view: how many vendors match its `q` and
+ * `filters`, and the top ones by its `sort` and `w` (see `@/lib/table-state`).
+ */
+import { ImageResponse } from "next/og"
+import { OG_IMAGE_SIZE, OgCard } from "@/components/og-card"
+import { describeFilterNode, pruneFilterGroup } from "@/lib/filters"
+import { criteria, MATCH_SCORE_COLUMN } from "@/lib/scoring"
+import { SITE_DESCRIPTION } from "@/lib/site"
+import { getTableRows } from "@/lib/table-page"
+import { parseTableState } from "@/lib/table-state"
+import { columns } from "@/lib/vendor-schema"
+
+/** How many vendors the card lists. */
+const TOP_VENDORS = 5
+
+/** Longest subtitle before it is cut short, so it fits on two lines. */
+const MAX_SUBTITLE_LENGTH = 120
+
+export async function GET(request: Request) {
+  const state = parseTableState(new URL(request.url).searchParams)
+  const rows = await getTableRows(state)
+
+  const filters = pruneFilterGroup(state.filters)
+  const ranking = criteria.filter(criterion => (state.weights[criterion.key] ?? 0) > 0).map(criterion => criterion.label)
+  const details = [
+    state.search.trim() !== '' ? `Search: “${state.search.trim()}”` : '',
+    filters.conditions.length > 0 ? describeFilterNode(columns, filters) : '',
+    ranking.length > 0 ? `Ranked for ${ranking.join(', ')}` : ''
+  ].filter(detail => detail !== '')
+  const subtitle = details.length > 0 ? details.join(' · ') : SITE_DESCRIPTION
+
+  return new ImageResponse(
+    (
+      <OgCard
+        title={details.length > 0 ? `${rows.length} matching RAG ${rows.length === 1 ? 'vendor' : 'vendors'}` : 'Compare RAG vendors'}
+        subtitle={subtitle.length > MAX_SUBTITLE_LENGTH ? `${subtitle.slice(0, MAX_SUBTITLE_LENGTH - 1)}…` : subtitle}
+        rows={rows.slice(0, TOP_VENDORS).map((vendor, index) => ({
+          key: vendor.slug,
+          label: `${index + 1}. ${vendor.name}`,
+          value: typeof vendor[MATCH_SCORE_COLUMN.key] === 'number' ? `${vendor[MATCH_SCORE_COLUMN.key]}% match` : String(vendor.usp)
+        }))}
+      />
+    ),
+    OG_IMAGE_SIZE
+  )
+}
@@ -1,5 +1,64 @@
+import type { Metadata } from "next"
+import { Footer } from "@/components/footer"
+import { Header } from "@/components/header"
+import { OG_IMAGE_SIZE } from "@/components/og-card"
+import { RecentChanges } from "@/components/recent-changes"
 import { RaGsFyiTable } from "@/components/src-components-ra-gs-fyi-table"
+import { getChangelog } from "@/lib/changelog"
+import { getCatalogueValueOptions, getTablePage } from "@/lib/table-page"
+import { SITE_NAME } from "@/lib/site"
+import { defaultTableState, parseTableState, toQueryString } from "@/lib/table-state"
+import { getVendors } from "@/lib/vendors"
 
-export default function Page() {
-  return <RaGsFyiTable />
-}
\ No newline at end of file
+/** How many change sets the "Recently changed" section lists. */
+const RECENT_CHANGES = 5
+
+type PageProps = {
+  searchParams: Record<string, string | string[] | undefined>
+}
+
+export function generateMetadata({ searchParams }: PageProps): Metadata {
+  const state = parseTableState(searchParams)
+  const { search, sort, filters, weights } = state
+  // A shared view gets a card with its top vendors, see `app/og/route.tsx`.
+  const image = `/og${toQueryString({ ...defaultTableState, search, sort, filters, weights })}`
+  return {
+    alternates: { canonical: '/', types: { 'application/atom+xml': '/changes.xml' } },
+    openGraph: {
+      siteName: SITE_NAME,
+      type: 'website',
+      url: `/${toQueryString(state)}`,
+      images: [{ url: image, ...OG_IMAGE_SIZE, alt: 'Top RAG vendors for this comparison' }]
+    },
+    twitter: { card: 'summary_large_image', images: [image] }
+  }
+}
+
+export default async function Page({ searchParams }: PageProps) {
+  const initialState = parseTableState(searchParams)
+  const [initialPage, valueOptions, vendors, changelog] = await Promise.all([
+    getTablePage(initialState),
+    getCatalogueValueOptions(),
+    getVendors(),
+    getChangelog()
+  ])
+  // Everything but the table's controls renders on the server only; the table itself is also
+  // rendered here with the rows for `initialState`, then hydrated.
+  return (
+    <div>
+      <Header />
+      <div className="container mx-auto p-4">
+        <h2 className="text-3xl font-bold mb-6 text-center">Compare RAG Vendors</h2>
+        <p className="text-lg mb-8 text-center">Find the best Retrieval-Augmented Generation solution for your needs.</p>
+        <RecentChanges changeSets={changelog.slice(0, RECENT_CHANGES)} />
+        <RaGsFyiTable
+          initialPage={initialPage}
+          valueOptions={valueOptions}
+          vendorIndex={vendors.map(({ slug, name }) => ({ slug, name }))}
+          initialState={initialState}
+        />
+        <Footer />
+      </div>
+    </div>
+  )
+}
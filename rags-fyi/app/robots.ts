@@ -0,0 +1,10 @@
+import type { MetadataRoute } from "next"
+import { SITE_URL } from "@/lib/site"
+
+/** `GET /robots.txt` — everything but the moderation queue and the API may be crawled. */
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: { userAgent: '*', allow: '/', disallow: ['/admin/', '/api/'] },
+    sitemap: `${SITE_URL}/sitemap.xml`
+  }
+}
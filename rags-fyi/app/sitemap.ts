@@ -0,0 +1,22 @@
+import type { MetadataRoute } from "next"
+import { getChangelog } from "@/lib/changelog"
+import { SITE_URL } from "@/lib/site"
+import { getVendors } from "@/lib/vendors"
+
+/** `GET /sitemap.xml` — the comparison table and every vendor page, dated by their latest change. */
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const [vendors, changelog] = await Promise.all([getVendors(), getChangelog()])
+
+  // The changelog is newest first, so the first change set found for a vendor is its latest.
+  const lastChanged = (slug: string) => changelog.find(changeSet => changeSet.vendor === slug)?.date
+
+  return [
+    { url: `${SITE_URL}/`, lastModified: changelog[0]?.date, changeFrequency: 'weekly', priority: 1 },
+    ...vendors.map(vendor => ({
+      url: `${SITE_URL}/vendors/${vendor.slug}`,
+      lastModified: lastChanged(vendor.slug) ?? (typeof vendor.lastVerified === 'string' ? vendor.lastVerified : undefined),
+      changeFrequency: 'monthly' as const,
+      priority: 0.8
+    }))
+  ]
+}
@@ -0,0 +1,32 @@
+import { ImageResponse } from "next/og"
+import { notFound } from "next/navigation"
+import { OG_IMAGE_SIZE, OgCard } from "@/components/og-card"
+import { formatValue } from "@/lib/column-types"
+import { columns } from "@/lib/vendor-schema"
+import { getVendor } from "@/lib/vendors"
+
+/** The attributes listed on a vendor's card, when the vendor has them. */
+const CARD_COLUMNS = ['pricing', 'startingPrice', 'deployment', 'compliance']
+
+export const alt = 'RAG vendor profile'
+export const size = OG_IMAGE_SIZE
+export const contentType = 'image/png'
+
+export default async function Image({ params }: { params: { slug: string } }) {
+  const vendor = await getVendor(params.slug)
+  if (!vendor) notFound()
+
+  return new ImageResponse(
+    (
+      <OgCard
+        title={vendor.name}
+        subtitle={String(vendor.usp)}
+        rows={columns
+          .filter(column => CARD_COLUMNS.includes(column.key) && vendor[column.key] !== undefined)
+          .map(column => ({ key: column.key, label: column.label, value: formatValue(column, vendor[column.key]) }))
+          .filter(row => row.value !== '')}
+      />
+    ),
+    size
+  )
+}
@@ -0,0 +1,147 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft, ExternalLink } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { CellValue } from "@/components/cell-value"
+import { Footer } from "@/components/footer"
+import { Header } from "@/components/header"
+import { describeChange, getVendorHistory, type ChangeSet } from "@/lib/changelog"
+import { formatDate } from "@/lib/column-types"
+import { SITE_NAME } from "@/lib/site"
+import { getVendorJsonLd, serializeJsonLd } from "@/lib/structured-data"
+import { columnCategories, columns } from "@/lib/vendor-schema"
+import { getVendor, getVendors } from "@/lib/vendors"
+
+type VendorPageProps = {
+  params: { slug: string }
+}
+
+/** Columns shown in the page header and links section rather than the attribute list. */
+const PAGE_SECTION_COLUMNS = ['name', 'usp', 'description', 'lastVerified', 'website', 'docsUrl', 'pricingUrl', 'githubUrl']
+
+const LINK_COLUMNS = ['website', 'docsUrl', 'pricingUrl', 'githubUrl']
+
+export const dynamicParams = false
+
+export async function generateStaticParams() {
+  const vendors = await getVendors()
+  return vendors.map(vendor => ({ slug: vendor.slug }))
+}
+
+export async function generateMetadata({ params }: VendorPageProps): Promise<Metadata> {
+  const vendor = await getVendor(params.slug)
+  if (!vendor) return {}
+
+  const description = typeof vendor.description === 'string' ? vendor.description : String(vendor.usp)
+  return {
+    title: vendor.name,
+    description,
+    alternates: { canonical: `/vendors/${vendor.slug}` },
+    openGraph: {
+      title: `${vendor.name} on ${SITE_NAME}`,
+      description,
+      type: 'article',
+      siteName: SITE_NAME,
+      url: `/vendors/${vendor.slug}`
+    }
+  }
+}
+
+export default async function VendorPage({ params }: VendorPageProps) {
+  const vendor = await getVendor(params.slug)
+  if (!vendor) notFound()
+
+  const history = await getVendorHistory(vendor.slug)
+  const links = columns.filter(column => LINK_COLUMNS.includes(column.key) && typeof vendor[column.key] === 'string')
+  const attributes = columns.filter(column => !PAGE_SECTION_COLUMNS.includes(column.key))
+
+  return (
+    <div>
+      <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: serializeJsonLd(getVendorJsonLd(vendor)) }} />
+      <Header />
+      <main className="container mx-auto max-w-4xl p-4">
+        <Link href="/" className="mb-6 inline-flex items-center text-sm text-muted-foreground hover:underline">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to comparison
+        </Link>
+        <h2 className="text-3xl font-bold">{vendor.name}</h2>
+        <p className="mt-2 text-lg text-muted-foreground">{vendor.usp}</p>
+        {typeof vendor.lastVerified === 'string' && (
+          <p className="mt-1 text-sm text-muted-foreground">Last verified {formatDate(vendor.lastVerified)}</p>
+        )}
+
+        {typeof vendor.description === 'string' && (
+          <p className="mt-6 whitespace-pre-line leading-relaxed">{vendor.description}</p>
+        )}
+
+        {links.length > 0 && (
+          <div className="mt-6 flex flex-wrap gap-2">
+            {links.map(column => (
+              <Button key={column.key} variant="outline" size="sm" asChild>
+                <a href={vendor[column.key] as string} target="_blank" rel="noopener noreferrer">
+                  {column.label}
+                  <ExternalLink className="ml-2 h-3 w-3" />
+                </a>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <h3 className="mb-4 mt-8 text-xl font-semibold">Details</h3>
+        {columnCategories.map(category => {
+          const categoryColumns = attributes.filter(column => column.category === category)
+          if (categoryColumns.length === 0) return null
+          return (
+            <section key={category} className="mb-6">
+              <h4 className="mb-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">{category}</h4>
+              <dl className="divide-y rounded-lg border">
+                {categoryColumns.map(column => (
+                  <div key={column.key} className="grid grid-cols-3 gap-4 px-4 py-3">
+                    <dt className="font-medium">{column.label}</dt>
+                    <dd className="col-span-2">
+                      <CellValue column={column} value={vendor[column.key]} />
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          )
+        })}
+
+        {history.length > 0 && (
+          <>
+            <h3 className="mb-4 mt-8 text-xl font-semibold">History</h3>
+            <VendorHistory history={history} />
+          </>
+        )}
+      </main>
+      <Footer />
+    </div>
+  )
+}
+
+/** Timeline of the changes recorded for a vendor, newest first. */
+function VendorHistory({ history }: { history: ChangeSet[] }) {
+  return (
+    <ol className="relative ml-2 space-y-6 border-l pl-6">
+      {history.map(changeSet => (
+        <li key={changeSet.id} className="relative">
+          <span className="absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background bg-primary" />
+          <time dateTime={changeSet.date} className="text-sm text-muted-foreground">
+            {formatDate(changeSet.date)}
+          </time>
+          {changeSet.type === 'changed' ? (
+            <ul className="mt-1 space-y-0.5">
+              {changeSet.changes.map(change => (
+                <li key={change.column}>{describeChange(change)}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-1">{changeSet.type === 'added' ? 'Added to the catalogue' : 'Removed from the catalogue'}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
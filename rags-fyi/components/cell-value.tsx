@@ -0,0 +1,45 @@
+import { Check, Minus } from 'lucide-react'
+import { Highlight } from "@/components/highlight"
+import { formatValue } from "@/lib/column-types"
+import type { Column, VendorValue } from "@/lib/vendor-schema"
+
+/**
+ * Renders a single vendor attribute according to its column type: checkmarks for booleans,
+ * chips for tag lists, links for URLs and formatted text for everything else. Text matching any of
+ * the search `terms` is highlighted.
+ */
+export function CellValue({ column, value, terms = [] }: { column: Column, value: VendorValue | undefined, terms?: string[] }) {
+  if (value === undefined) {
+    return <span className="text-muted-foreground">—</span>
+  }
+
+  switch (column.type) {
+    case 'boolean':
+      return value ? (
+        <Check className="h-4 w-4 text-success" aria-label="Yes" />
+      ) : (
+        <Minus className="h-4 w-4 text-muted-foreground" aria-label="No" />
+      )
+    case 'tags':
+      return (
+        <div className="flex flex-wrap gap-1">
+          {(value as string[]).map(tag => (
+            <span key={tag} className="rounded-full bg-secondary px-2 py-0.5 text-xs text-secondary-foreground">
+              <Highlight text={tag} terms={terms} />
+            </span>
+          ))}
+        </div>
+      )
+    case 'url':
+      return (
+        <a href={value as string} target="_blank" rel="noopener noreferrer" className="text-primary underline-offset-4 hover:underline">
+          <Highlight text={new URL(value as string).hostname.replace(/^www\./, '')} terms={terms} />
+        </a>
+      )
+    case 'number':
+    case 'currency':
+      return <span className="tabular-nums"><Highlight text={formatValue(column, value)} terms={terms} /></span>
+    default:
+      return <Highlight text={formatValue(column, value)} terms={terms} />
+  }
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react'
+import { Check, Filter as FilterIcon } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import {
+  createFilter,
+  defaultFilterValue,
+  filterOptionLabels,
+  getFilterOptions,
+  isFilterComplete,
+  isMultiValueOption,
+  isValidRegex,
+  MAX_REGEX_LENGTH,
+  type Filter,
+  type FilterOption
+} from "@/lib/filters"
+import type { Column } from "@/lib/vendor-schema"
+
+type ColumnFilterPopoverProps = {
+  column: Column
+  /** The top-level filter currently applied to the column, if any. */
+  filter: Filter | undefined
+  /** Whether any applied filter, including ones nested in groups, references the column. */
+  active: boolean
+  valueOptions: string[]
+  onApply: (filter: Filter) => void
+  onReset: () => void
+  /** Controlled by the table, so the popover can also be opened from the keyboard. */
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * The filter button in a column header. Edits happen on a draft that is only applied to the
+ * table by "Apply"; "Reset" removes the column's filter. The icon is filled while the column is filtered.
+ * The button is left out of the tab order: in the table grid it is reached with Alt+ArrowDown on the header cell.
+ */
+export function ColumnFilterPopover({ column, filter, active, valueOptions, onApply, onReset, open, onOpenChange }: ColumnFilterPopoverProps) {
+  const [draft, setDraft] = useState<Filter>(filter ?? createFilter(column))
+
+  // Start each opening from the applied filter, however the popover was opened.
+  const [wasOpen, setWasOpen] = useState(open)
+  if (open !== wasOpen) {
+    setWasOpen(open)
+    if (open) setDraft(filter ?? createFilter(column))
+  }
+
+  const canApply = isFilterComplete(draft)
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          tabIndex={-1}
+          className={cn("h-8 w-8 p-0", active && "text-primary")}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <FilterIcon className={cn("h-4 w-4", active ? "fill-current" : "opacity-50")} />
+          <span className="sr-only">{active ? `Edit filter on ${column.label}` : `Filter ${column.label}`}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" onClick={(e) => e.stopPropagation()}>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (!canApply) return
+            onApply(draft)
+            onOpenChange(false)
+          }}
+        >
+          <h4 className="font-medium leading-none">Filter {column.label}</h4>
+          <ColumnFilter
+            column={column}
+            filter={draft}
+            valueOptions={valueOptions}
+            onChange={(option, value) => setDraft({ column: column.key, option, value })}
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                onReset()
+                onOpenChange(false)
+              }}
+            >
+              Reset
+            </Button>
+            <Button type="submit" size="sm" disabled={!canApply}>
+              Apply
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+type ColumnFilterProps = {
+  column: Column
+  filter: Filter | undefined
+  /** Selectable values for `enum` and `tags` columns. */
+  valueOptions: string[]
+  onChange: (option: FilterOption, value: string | string[]) => void
+}
+
+/**
+ * An operator picker limited to the operators valid for the column's type, followed by the value
+ * input that operator needs. Used by the column popovers and by each condition in the filter builder.
+ */
+export function ColumnFilter({ column, filter, valueOptions, onChange }: ColumnFilterProps) {
+  const options = getFilterOptions(column)
+  const option = filter && options.includes(filter.option) ? filter.option : options[0]
+  const value = filter?.option === option ? filter.value : defaultFilterValue(option)
+
+  const handleOptionChange = (nextOption: FilterOption) => {
+    const keepValue = isMultiValueOption(nextOption) === isMultiValueOption(option)
+      && (nextOption === 'between') === (option === 'between')
+    onChange(nextOption, keepValue ? value : defaultFilterValue(nextOption))
+  }
+
+  return (
+    <div className="space-y-4">
+      <Select value={option} onValueChange={(next) => handleOptionChange(next as FilterOption)}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select filter option" />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(item => (
+            <SelectItem key={item} value={item}>
+              {filterOptionLabels[item]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <FilterValueInput
+        column={column}
+        option={option}
+        value={value}
+        valueOptions={valueOptions}
+        onChange={(nextValue) => onChange(option, nextValue)}
+      />
+    </div>
+  )
+}
+
+type FilterValueInputProps = {
+  column: Column
+  option: FilterOption
+  value: string | string[]
+  valueOptions: string[]
+  onChange: (value: string | string[]) => void
+}
+
+function FilterValueInput({ column, option, value, valueOptions, onChange }: FilterValueInputProps) {
+  if (option === 'is-true' || option === 'is-false') return null
+
+  if (isMultiValueOption(option)) {
+    const selected = Array.isArray(value) ? value : []
+    if (valueOptions.length === 0) {
+      return <p className="text-sm text-muted-foreground">No values to choose from.</p>
+    }
+    return (
+      <div className="max-h-48 space-y-1 overflow-y-auto">
+        {valueOptions.map(item => (
+          <button
+            key={item}
+            type="button"
+            className="flex w-full items-center rounded-sm px-2 py-1 text-sm hover:bg-accent hover:text-accent-foreground"
+            onClick={() => onChange(selected.includes(item) ? selected.filter(v => v !== item) : [...selected, item])}
+          >
+            <Check className={cn("mr-2 h-4 w-4", selected.includes(item) ? "opacity-100" : "opacity-0")} />
+            {item}
+          </button>
+        ))}
+      </div>
+    )
+  }
+
+  const inputType = column.type === 'date' ? 'date' : column.type === 'number' || column.type === 'currency' ? 'number' : 'text'
+
+  if (option === 'between') {
+    const [min = '', max = ''] = Array.isArray(value) ? value : []
+    return (
+      <div className="flex items-center gap-2">
+        <Input type={inputType} placeholder="Min" value={min} onChange={(e) => onChange([e.target.value, max])} />
+        <span className="text-sm text-muted-foreground">and</span>
+        <Input type={inputType} placeholder="Max" value={max} onChange={(e) => onChange([min, e.target.value])} />
+      </div>
+    )
+  }
+
+  const text = typeof value === 'string' ? value : ''
+  return (
+    <div className="space-y-1">
+      <Input
+        type={inputType}
+        placeholder={option === 'matches-regex' ? 'Enter a regular expression...' : 'Enter filter value...'}
+        value={text}
+        maxLength={option === 'matches-regex' ? MAX_REGEX_LENGTH : undefined}
+        onChange={(e) => onChange(e.target.value)}
+      />
+      {option === 'matches-regex' && text !== '' && !isValidRegex(text) && (
+        <p className="text-xs text-destructive">Invalid regular expression.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Building2, Command as CommandIcon } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator
+} from "@/components/ui/command"
+import type { VendorData } from "@/lib/vendor-schema"
+
+export type PaletteAction = {
+  key: string
+  label: string
+  /** Heading the action is listed under. */
+  group: string
+  onSelect: () => void
+}
+
+type CommandPaletteProps = {
+  /** Every vendor in the catalogue, to jump to its detail page. */
+  vendors: Pick<VendorData, 'slug' | 'name'>[]
+  actions: PaletteAction[]
+}
+
+/**
+ * Command palette opened with Ctrl+K / ⌘K (or its toolbar button): type to find a vendor and open
+ * its page, or to run one of the table's `actions`.
+ */
+export function CommandPalette({ vendors, actions }: CommandPaletteProps) {
+  const [open, setOpen] = useState(false)
+  const router = useRouter()
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setOpen(prev => !prev)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  const groups = Array.from(new Set(actions.map(action => action.group)))
+
+  const run = (callback: () => void) => {
+    setOpen(false)
+    callback()
+  }
+
+  return (
+    <>
+      <Button variant="outline" aria-keyshortcuts="Control+K Meta+K" onClick={() => setOpen(true)}>
+        <CommandIcon className="mr-2 h-4 w-4" />
+        Commands
+        <kbd className="ml-2 rounded border bg-muted px-1.5 font-mono text-xs text-muted-foreground">Ctrl K</kbd>
+      </Button>
+      <CommandDialog open={open} onOpenChange={setOpen}>
+        <CommandInput placeholder="Jump to a vendor or run a command..." />
+        <CommandList>
+          <CommandEmpty>No results found.</CommandEmpty>
+          {groups.map(group => (
+            <CommandGroup key={group} heading={group}>
+              {actions.filter(action => action.group === group).map(action => (
+                <CommandItem key={action.key} value={`${group} ${action.label}`} onSelect={() => run(action.onSelect)}>
+                  {action.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          ))}
+          <CommandSeparator />
+          <CommandGroup heading="Vendors">
+            {vendors.map(vendor => (
+              <CommandItem
+                key={vendor.slug}
+                value={`vendor ${vendor.name}`}
+                onSelect={() => run(() => router.push(`/vendors/${vendor.slug}`))}
+              >
+                <Building2 className="mr-2 h-4 w-4" />
+                {vendor.name}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    </>
+  )
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import { Download } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { exportVendors, type ExportFormat } from "@/lib/export"
+import type { Column, VendorData } from "@/lib/vendor-schema"
+
+const formats: { format: ExportFormat, label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'markdown', label: 'Markdown table' }
+]
+
+type ExportMenuProps = {
+  /** The columns currently on screen, in display order, including the match score while ranking. */
+  columns: Column[]
+  /** Every column, used when "Export full dataset" is checked. */
+  allColumns: Column[]
+  /** How many vendors match the current view, across all pages, and how many the catalogue holds. */
+  total: number
+  catalogueSize: number
+  /** Loads the rows of the current view across all pages, or every vendor with `fullDataset`. */
+  loadVendors: (fullDataset: boolean) => Promise<VendorData[]>
+}
+
+function download(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/** Downloads the current table view, or optionally the full unfiltered dataset, as CSV, JSON or Markdown. */
+export function ExportMenu({ columns, allColumns, total, catalogueSize, loadVendors }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [fullDataset, setFullDataset] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true)
+    setError(null)
+    try {
+      const vendors = await loadVendors(fullDataset)
+      const file = exportVendors(format, vendors, fullDataset ? allColumns : columns)
+      download(`rags-fyi-vendors.${file.extension}`, file.content, file.mimeType)
+      setOpen(false)
+    } catch {
+      setError('Could not load the vendors. Please try again.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="end">
+        <div className="space-y-1">
+          {formats.map(({ format, label }) => (
+            <Button key={format} variant="ghost" className="w-full justify-start" disabled={exporting} onClick={() => handleExport(format)}>
+              {label}
+            </Button>
+          ))}
+        </div>
+        <label className="mt-2 flex items-center gap-2 border-t px-2 pt-3 text-sm">
+          <Checkbox checked={fullDataset} onCheckedChange={(checked) => setFullDataset(checked === true)} />
+          Export full dataset
+        </label>
+        <p className="px-2 pt-1 text-xs text-muted-foreground">
+          {fullDataset
+            ? `All ${catalogueSize} vendors and ${allColumns.length} columns, ignoring filters.`
+            : `${total} vendors and ${columns.length} columns, as shown, across all pages.`}
+        </p>
+        {error && <p className="px-2 pt-1 text-xs text-destructive">{error}</p>}
+      </PopoverContent>
+    </Popover>
+  )
+}
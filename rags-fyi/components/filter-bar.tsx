@@ -0,0 +1,51 @@
+import { Fragment } from 'react'
+import { X } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { describeFilterNode, isFilterNodeActive, type FilterGroup } from "@/lib/filters"
+import type { Column } from "@/lib/vendor-schema"
+
+type FilterBarProps = {
+  columns: Column[]
+  filters: FilterGroup
+  /** Called with the index of the removed node in `filters.conditions`. */
+  onRemove: (index: number) => void
+  onClearAll: () => void
+}
+
+/**
+ * Shows each active top-level filter (or nested group) as a removable chip above the table,
+ * plus a "Clear all" action. Renders nothing while no filters are applied.
+ */
+export function FilterBar({ columns, filters, onRemove, onClearAll }: FilterBarProps) {
+  const chips = filters.conditions
+    .map((node, index) => ({ index, description: describeFilterNode(columns, node), active: isFilterNodeActive(node) }))
+    .filter(chip => chip.active && chip.description !== '')
+  if (chips.length === 0) return null
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">Filters:</span>
+      {chips.map(({ index, description }, position) => (
+        <Fragment key={index}>
+          {position > 0 && filters.combinator === 'or' && (
+            <span className="text-xs uppercase text-muted-foreground">or</span>
+          )}
+          <span className="inline-flex items-center rounded-full border bg-secondary py-0.5 pl-3 pr-1 text-sm text-secondary-foreground">
+            {description}
+            <button
+              type="button"
+              className="ml-1 rounded-full p-0.5 hover:bg-accent hover:text-accent-foreground"
+              onClick={() => onRemove(index)}
+            >
+              <X className="h-3 w-3" />
+              <span className="sr-only">Remove filter: {description}</span>
+            </button>
+          </span>
+        </Fragment>
+      ))}
+      <Button variant="link" size="sm" className="h-auto px-1" onClick={onClearAll}>
+        Clear all
+      </Button>
+    </div>
+  )
+}
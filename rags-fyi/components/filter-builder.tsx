@@ -0,0 +1,225 @@
+import { useState } from 'react'
+import { ListFilter, Plus, Trash2 } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ColumnFilter } from "@/components/column-filter"
+import { cn } from "@/lib/utils"
+import {
+  createFilter,
+  emptyFilterGroup,
+  isFilterGroup,
+  pruneFilterGroup,
+  type Filter,
+  type FilterCombinator,
+  type FilterGroup,
+  type FilterNode,
+  type ValueOptions
+} from "@/lib/filters"
+import type { Column } from "@/lib/vendor-schema"
+
+/** How deep groups may be nested inside the root group. */
+const MAX_GROUP_DEPTH = 2
+
+type FilterBuilderProps = {
+  columns: Column[]
+  /** Selectable values per column, see `getValueOptions`. */
+  valueOptions: ValueOptions
+  filters: FilterGroup
+  onApply: (filters: FilterGroup) => void
+}
+
+/**
+ * Dialog for building compound filters: any number of conditions per column, combined in nested
+ * AND/OR groups. It edits a draft of the table's root `FilterGroup` and replaces it on "Apply".
+ */
+export function FilterBuilder({ columns, valueOptions, filters, onApply }: FilterBuilderProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<FilterGroup>(filters)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) setDraft(filters)
+    setOpen(nextOpen)
+  }
+
+  const activeCount = pruneFilterGroup(filters).conditions.length
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ListFilter className="mr-2 h-4 w-4" />
+          Filter builder{activeCount > 0 && ` (${activeCount})`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[85vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Filter builder</DialogTitle>
+          <DialogDescription>
+            Combine conditions with AND/OR, and group them to build queries like
+            &ldquo;(open source or free tier) and hybrid search&rdquo;.
+          </DialogDescription>
+        </DialogHeader>
+        <FilterGroupEditor columns={columns} valueOptions={valueOptions} group={draft} depth={0} onChange={setDraft} />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setDraft(emptyFilterGroup())}>
+            Clear
+          </Button>
+          <Button
+            onClick={() => {
+              onApply(pruneFilterGroup(draft))
+              setOpen(false)
+            }}
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+type FilterGroupEditorProps = {
+  columns: Column[]
+  valueOptions: ValueOptions
+  group: FilterGroup
+  depth: number
+  onChange: (group: FilterGroup) => void
+  onRemove?: () => void
+}
+
+function FilterGroupEditor({ columns, valueOptions, group, depth, onChange, onRemove }: FilterGroupEditorProps) {
+  const updateCondition = (index: number, node: FilterNode) => {
+    onChange({ ...group, conditions: group.conditions.map((condition, i) => i === index ? node : condition) })
+  }
+
+  const removeCondition = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })
+  }
+
+  const addCondition = (node: FilterNode) => {
+    onChange({ ...group, conditions: [...group.conditions, node] })
+  }
+
+  return (
+    <div className={cn("space-y-3", depth > 0 && "rounded-md border bg-muted/40 p-3")}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.combinator}
+          onValueChange={(combinator) => onChange({ ...group, combinator: combinator as FilterCombinator })}
+        >
+          <SelectTrigger className="w-[120px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">Match all</SelectItem>
+            <SelectItem value="or">Match any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">of the following</span>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="ml-auto" onClick={onRemove}>
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Remove group</span>
+          </Button>
+        )}
+      </div>
+      {group.conditions.length === 0 && (
+        <p className="text-sm text-muted-foreground">No conditions yet.</p>
+      )}
+      {group.conditions.map((node, index) =>
+        isFilterGroup(node) ? (
+          <FilterGroupEditor
+            key={index}
+            columns={columns}
+            valueOptions={valueOptions}
+            group={node}
+            depth={depth + 1}
+            onChange={(next) => updateCondition(index, next)}
+            onRemove={() => removeCondition(index)}
+          />
+        ) : (
+          <FilterConditionEditor
+            key={index}
+            columns={columns}
+            valueOptions={valueOptions}
+            filter={node}
+            onChange={(next) => updateCondition(index, next)}
+            onRemove={() => removeCondition(index)}
+          />
+        )
+      )}
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => addCondition(createFilter(columns[0]))}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => addCondition({
+              combinator: group.combinator === 'and' ? 'or' : 'and',
+              conditions: [createFilter(columns[0])]
+            })}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add group
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+type FilterConditionEditorProps = {
+  columns: Column[]
+  valueOptions: ValueOptions
+  filter: Filter
+  onChange: (filter: Filter) => void
+  onRemove: () => void
+}
+
+function FilterConditionEditor({ columns, valueOptions, filter, onChange, onRemove }: FilterConditionEditorProps) {
+  const column = columns.find(col => col.key === filter.column) ?? columns[0]
+
+  return (
+    <div className="flex items-start gap-2 rounded-md border bg-background p-3">
+      <Select
+        value={column.key}
+        onValueChange={(key) => onChange(createFilter(columns.find(col => col.key === key) ?? column))}
+      >
+        <SelectTrigger className="w-[160px] shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {columns.map(col => (
+            <SelectItem key={col.key} value={col.key}>
+              {col.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="min-w-0 flex-1">
+        <ColumnFilter
+          column={column}
+          filter={filter}
+          valueOptions={valueOptions[column.key] ?? []}
+          onChange={(option, value) => onChange({ column: column.key, option, value })}
+        />
+      </div>
+      <Button variant="ghost" size="icon" className="shrink-0" onClick={onRemove}>
+        <Trash2 className="h-4 w-4" />
+        <span className="sr-only">Remove condition</span>
+      </Button>
+    </div>
+  )
+}
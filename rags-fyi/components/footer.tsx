@@ -0,0 +1,14 @@
+export function Footer() {
+  return (
+    <footer className="border-t bg-muted text-muted-foreground py-6 mt-8">
+      <div className="container mx-auto text-center">
+        <p>© 2023 RAGs.FYI. All rights reserved.</p>
+        <div className="mt-4">
+          <a href="#" className="hover:underline mx-2">Privacy Policy</a>
+          <a href="#" className="hover:underline mx-2">Terms of Service</a>
+          <a href="#" className="hover:underline mx-2">Contact Us</a>
+        </div>
+      </div>
+    </footer>
+  )
+}
@@ -0,0 +1,20 @@
+import Link from "next/link"
+import { ThemeToggle } from "@/components/theme-toggle"
+
+export function Header() {
+  return (
+    <header className="bg-brand text-brand-foreground py-4">
+      <div className="container mx-auto flex justify-between items-center">
+        <h1 className="text-2xl font-bold"><Link href="/">RAGs.FYI Comparison</Link></h1>
+        <nav>
+          <ul className="flex items-center space-x-4">
+            <li><Link href="/" className="hover:underline">Home</Link></li>
+            <li><a href="#" className="hover:underline">About</a></li>
+            <li><a href="#" className="hover:underline">Contact</a></li>
+            <li><ThemeToggle /></li>
+          </ul>
+        </nav>
+      </div>
+    </header>
+  )
+}
@@ -0,0 +1,21 @@
+import { getMatchRanges } from "@/lib/search"
+
+/** Renders `text` with the parts matched by the search `terms` wrapped in `<mark>`. */
+export function Highlight({ text, terms }: { text: string, terms: string[] }) {
+  const ranges = terms.length > 0 ? getMatchRanges(text, terms) : []
+  if (ranges.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let position = 0
+  for (const [start, end] of ranges) {
+    if (start > position) parts.push(text.slice(position, start))
+    parts.push(
+      <mark key={start} className="rounded-sm bg-highlight text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    )
+    position = end
+  }
+  if (position < text.length) parts.push(text.slice(position))
+  return <>{parts}</>
+}
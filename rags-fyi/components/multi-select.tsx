@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { Check, CheckCheck, ChevronsUpDown, Lock } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandSeparator } from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+
+export type MultiSelectOption = {
+  value: string
+  label: string
+  /** Heading the option is grouped under; groups appear in order of first occurrence. */
+  category: string
+  /** Locked options stay selected, so the selection can never be empty. */
+  locked?: boolean
+}
+
+type MultiSelectProps = {
+  options: MultiSelectOption[]
+  /** Selected values, in display order. */
+  selected: string[]
+  /** Selection restored by "Reset to default". */
+  defaultSelected: string[]
+  onChange: (selected: string[]) => void
+  className?: string
+}
+
+/** How many selected labels the trigger lists before summarising the rest as "+n". */
+const MAX_TRIGGER_LABELS = 2
+
+/**
+ * Column picker. Changes apply to the table as they are made; "Cancel" restores the selection the
+ * picker was opened with. Newly selected values are appended, so the existing order is kept.
+ */
+export function MultiSelect({ options, selected, defaultSelected, onChange, className }: MultiSelectProps) {
+  const [open, setOpen] = useState(false)
+  // The selection when the picker was opened, restored by "Cancel".
+  const [initialSelected, setInitialSelected] = useState(selected)
+
+  const lockedValues = options.filter(option => option.locked).map(option => option.value)
+  const categories = Array.from(new Set(options.map(option => option.category)))
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) setInitialSelected(selected)
+    setOpen(nextOpen)
+  }
+
+  // Locked values are always part of the selection, even when it came from a link that leaves them out.
+  const change = (values: string[]) => {
+    onChange([...lockedValues.filter(value => !values.includes(value)), ...values])
+  }
+
+  const select = (values: string[]) => {
+    change([...selected, ...values.filter(value => !selected.includes(value))])
+  }
+
+  const deselect = (values: string[]) => {
+    change(selected.filter(value => lockedValues.includes(value) || !values.includes(value)))
+  }
+
+  const selectedLabels = selected
+    .map(value => options.find(option => option.value === value)?.label)
+    .filter((label): label is string => label !== undefined)
+  const triggerLabel = selectedLabels.length > MAX_TRIGGER_LABELS
+    ? `${selectedLabels.slice(0, MAX_TRIGGER_LABELS).join(', ')} +${selectedLabels.length - MAX_TRIGGER_LABELS}`
+    : selectedLabels.join(', ')
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          aria-label={`Visible columns: ${selectedLabels.join(', ')}`}
+          title={selectedLabels.join(', ')}
+          className={cn("w-[200px] justify-between", className)}
+        >
+          <span className="truncate">{triggerLabel}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[260px] p-0" align="end">
+        <Command>
+          <CommandInput placeholder="Search columns..." />
+          <CommandList>
+            <CommandEmpty>No column found.</CommandEmpty>
+            <CommandGroup>
+              <CommandItem value="select all columns" onSelect={() => select(options.map(option => option.value))}>
+                <CheckCheck className="mr-2 h-4 w-4" />
+                Select all
+              </CommandItem>
+              <CommandItem value="deselect all columns" onSelect={() => deselect(options.map(option => option.value))}>
+                <span className="mr-2 h-4 w-4" />
+                Deselect all
+              </CommandItem>
+              <CommandItem value="reset columns to default" onSelect={() => change(defaultSelected)}>
+                <span className="mr-2 h-4 w-4" />
+                Reset to default
+              </CommandItem>
+            </CommandGroup>
+            <CommandSeparator />
+            {categories.map(category => {
+              const groupOptions = options.filter(option => option.category === category)
+              const groupValues = groupOptions.map(option => option.value)
+              const allSelected = groupValues.every(value => selected.includes(value))
+              return (
+                <CommandGroup key={category} heading={category}>
+                  <CommandItem
+                    value={`${category} select all`}
+                    className="text-muted-foreground"
+                    onSelect={() => allSelected ? deselect(groupValues) : select(groupValues)}
+                  >
+                    <CheckCheck className="mr-2 h-4 w-4" />
+                    {allSelected ? 'Deselect all' : 'Select all'}
+                  </CommandItem>
+                  {groupOptions.map(option => {
+                    const isSelected = selected.includes(option.value)
+                    return (
+                      <CommandItem
+                        key={option.value}
+                        value={`${category} ${option.label}`}
+                        disabled={option.locked}
+                        onSelect={() => isSelected ? deselect([option.value]) : select([option.value])}
+                      >
+                        <Check className={cn("mr-2 h-4 w-4", isSelected ? "opacity-100" : "opacity-0")} />
+                        {option.label}
+                        {option.locked && <Lock className="ml-auto h-3 w-3 opacity-50" aria-label="Always shown" />}
+                      </CommandItem>
+                    )
+                  })}
+                </CommandGroup>
+              )
+            })}
+          </CommandList>
+        </Command>
+        <div className="flex gap-2 border-t p-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => {
+              onChange(initialSelected)
+              setOpen(false)
+            }}
+          >
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={() => setOpen(false)}>
+            Done
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
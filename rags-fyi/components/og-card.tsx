@@ -0,0 +1,39 @@
+import { SITE_NAME } from "@/lib/site"
+
+/** Size of every generated Open Graph image. */
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 }
+
+export type OgRow = {
+  key: string
+  label: string
+  value: string
+}
+
+type OgCardProps = {
+  title: string
+  subtitle: string
+  /** Label/value lines listed below the subtitle, e.g. the top vendors of a view. */
+  rows?: OgRow[]
+}
+
+/**
+ * Layout of the generated Open Graph images, rendered by `ImageResponse`. It only supports a
+ * subset of CSS, so the card is styled inline and every element with children is a flex box.
+ */
+export function OgCard({ title, subtitle, rows = [] }: OgCardProps) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', width: '100%', height: '100%', padding: 64, background: '#ffffff', color: '#111827' }}>
+      <div style={{ display: 'flex', fontSize: 32, fontWeight: 700, color: '#2563eb' }}>{SITE_NAME}</div>
+      <div style={{ display: 'flex', marginTop: 24, fontSize: 64, fontWeight: 700 }}>{title}</div>
+      <div style={{ display: 'flex', marginTop: 16, fontSize: 30, color: '#4b5563' }}>{subtitle}</div>
+      <div style={{ display: 'flex', flexDirection: 'column', marginTop: 40 }}>
+        {rows.map(row => (
+          <div key={row.key} style={{ display: 'flex', justifyContent: 'space-between', padding: '12px 0', borderTop: '1px solid #e5e7eb', fontSize: 30 }}>
+            <div style={{ display: 'flex', fontWeight: 700 }}>{row.label}</div>
+            <div style={{ display: 'flex', color: '#4b5563' }}>{row.value}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
+import { formatDate } from "@/lib/column-types"
+import { ageInDays, getVerifiedAt, isStale } from "@/lib/freshness"
+import type { Column, Provenance, VendorData } from "@/lib/vendor-schema"
+
+type ProvenanceTooltipProps = {
+  vendor: VendorData
+  column: Column
+  provenance: Provenance | undefined
+  children: React.ReactNode
+}
+
+/**
+ * Wraps a table cell's content in a tooltip naming the source of the value and when it was last
+ * verified. A "Stale" badge is shown next to values whose own verification date (or, for the
+ * Last Verified column, the vendor's) is older than `STALE_AFTER_DAYS`.
+ */
+export function ProvenanceTooltip({ vendor, column, provenance, children }: ProvenanceTooltipProps) {
+  const verifiedAt = getVerifiedAt(vendor, provenance)
+  const ownDate = column.key === 'lastVerified' ? verifiedAt : provenance?.verifiedAt
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex items-center gap-2">
+          <div className="min-w-0">{children}</div>
+          {ownDate && isStale(ownDate) && <StaleBadge verifiedAt={ownDate} />}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <p className="break-all">{provenance?.source ? `Source: ${provenance.source}` : 'No source recorded'}</p>
+        <p>
+          {verifiedAt
+            ? `Verified ${formatDate(verifiedAt)}${provenance?.verifiedAt ? '' : ' (with the rest of this vendor)'}`
+            : 'Never verified'}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  )
+}
+
+function StaleBadge({ verifiedAt }: { verifiedAt: string }) {
+  return (
+    <span
+      className="shrink-0 rounded-full border border-warning-foreground/30 bg-warning px-1.5 py-0.5 text-[10px] font-medium uppercase text-warning-foreground"
+      title={`Last verified ${ageInDays(verifiedAt)} days ago`}
+    >
+      Stale
+    </span>
+  )
+}
@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Check, Compass, X } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import {
+  getRecommendation,
+  questions,
+  type Answers,
+  type Recommendation,
+  type VendorVerdict
+} from "@/lib/questionnaire"
+
+type QuestionnaireDialogProps = {
+  /** Explains the recommendation for `answers` against the whole catalogue, see `explainRecommendation`. */
+  loadVerdicts: (answers: Answers) => Promise<VendorVerdict[]>
+  onApply: (recommendation: Recommendation) => void
+}
+
+/**
+ * "Help me choose": a step-by-step wizard that asks one question per step, then summarises which
+ * vendors match the answers and why the others were excluded before applying the resulting
+ * filters and ranking to the table.
+ */
+export function QuestionnaireDialog({ loadVerdicts, onApply }: QuestionnaireDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [step, setStep] = useState(0)
+  const [answers, setAnswers] = useState<Answers>({})
+
+  const question = questions[step]
+  const showingSummary = step === questions.length
+  const recommendation = useMemo(() => getRecommendation(answers), [answers])
+  // `null` while the summary is loading.
+  const [verdicts, setVerdicts] = useState<VendorVerdict[] | null>(null)
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    if (!showingSummary) return
+    let cancelled = false
+    setVerdicts(null)
+    setError(false)
+    loadVerdicts(answers).then(
+      result => !cancelled && setVerdicts(result),
+      () => !cancelled && setError(true)
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [showingSummary, answers, loadVerdicts])
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) setStep(0)
+    setOpen(nextOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Compass className="mr-2 h-4 w-4" />
+          Help me choose
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[85vh] max-w-xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{showingSummary ? 'Your recommendations' : question.title}</DialogTitle>
+          <DialogDescription>
+            {showingSummary
+              ? 'Applying these answers filters and ranks the table as summarised below.'
+              : `Step ${step + 1} of ${questions.length}. ${question.description}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!showingSummary && (
+          <div className="space-y-2" role="radiogroup" aria-label={question.title}>
+            {question.answers.map(answer => {
+              const selected = answers[question.key] === answer.value
+              return (
+                <button
+                  key={answer.value}
+                  type="button"
+                  role="radio"
+                  aria-checked={selected}
+                  className={cn(
+                    "flex w-full items-center justify-between rounded-md border px-4 py-3 text-left text-sm hover:bg-accent",
+                    selected && "border-primary bg-accent"
+                  )}
+                  onClick={() => {
+                    setAnswers(prev => ({ ...prev, [question.key]: answer.value }))
+                    setStep(step + 1)
+                  }}
+                >
+                  {answer.label}
+                  {selected && <Check className="h-4 w-4" />}
+                </button>
+              )
+            })}
+          </div>
+        )}
+
+        {showingSummary && (
+          <div className="space-y-4 text-sm">
+            {recommendation.notes.length > 0 && (
+              <ul className="list-disc space-y-1 rounded-md bg-muted p-3 pl-7 text-muted-foreground">
+                {recommendation.notes.map(note => <li key={note}>{note}</li>)}
+              </ul>
+            )}
+            {error && <p className="text-destructive">Could not load the recommendations. Please try again.</p>}
+            {!error && verdicts === null && <p className="text-muted-foreground">Finding matching vendors…</p>}
+            <ul className="divide-y rounded-md border empty:hidden">
+              {(verdicts ?? []).map(verdict => (
+                <li key={verdict.vendor.slug} className={cn("p-3", !verdict.matched && "text-muted-foreground")}>
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{verdict.vendor.name}</span>
+                    <span className="tabular-nums">
+                      {verdict.matched
+                        ? verdict.score !== undefined ? `${verdict.score}% match` : 'Matches'
+                        : 'Excluded'}
+                    </span>
+                  </div>
+                  {verdict.reasons.length > 0 && (
+                    <ul className="mt-1 space-y-0.5">
+                      {verdict.reasons.map(reason => (
+                        <li key={reason.text} className="flex items-center gap-1.5">
+                          {reason.met
+                            ? <Check className="h-3.5 w-3.5 text-success" aria-label="Meets" />
+                            : <X className="h-3.5 w-3.5 text-destructive" aria-label="Does not meet" />}
+                          {reason.text}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step > 0 && (
+            <Button variant="outline" onClick={() => setStep(step - 1)}>
+              Back
+            </Button>
+          )}
+          {showingSummary ? (
+            <Button
+              onClick={() => {
+                onApply(recommendation)
+                setOpen(false)
+              }}
+            >
+              Apply to table
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                // Skipping after going back drops the earlier answer, so its filters no longer apply.
+                setAnswers(({ [question.key]: _skipped, ...rest }) => rest)
+                setStep(step + 1)
+              }}
+            >
+              Skip
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
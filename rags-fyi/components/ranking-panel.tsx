@@ -0,0 +1,87 @@
+import { SlidersHorizontal } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
+import { criteria, hasWeights, MAX_WEIGHT, type VendorScore, type Weights } from "@/lib/scoring"
+
+type RankingPanelProps = {
+  weights: Weights
+  onChange: (weights: Weights) => void
+}
+
+/** "Rank for my needs": a slider per scoring criterion, applied as the user drags. */
+export function RankingPanel({ weights, onChange }: RankingPanelProps) {
+  const active = hasWeights(weights)
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={active ? 'secondary' : 'outline'}>
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Rank for my needs
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <div className="mb-3">
+          <h4 className="font-medium">Rank for my needs</h4>
+          <p className="text-sm text-muted-foreground">
+            Weigh what matters to you to get a match score for every vendor. 0 ignores a criterion.
+          </p>
+        </div>
+        <div className="space-y-3">
+          {criteria.map(criterion => {
+            const weight = weights[criterion.key] ?? 0
+            return (
+              <label key={criterion.key} className="block text-sm" title={criterion.description}>
+                <span className="flex justify-between">
+                  <span className="font-medium">{criterion.label}</span>
+                  <span className="tabular-nums text-muted-foreground">{weight}</span>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_WEIGHT}
+                  step={1}
+                  value={weight}
+                  className="w-full accent-primary"
+                  onChange={(e) => onChange({ ...weights, [criterion.key]: Number(e.target.value) })}
+                />
+              </label>
+            )
+          })}
+        </div>
+        <Button variant="outline" size="sm" className="mt-3 w-full" disabled={!active} onClick={() => onChange({})}>
+          Reset weights
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+/** A vendor's match score, with the points each criterion contributed in a tooltip. */
+export function MatchScore({ score }: { score: VendorScore | undefined }) {
+  if (!score) return <span className="text-muted-foreground">—</span>
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="cursor-help font-medium tabular-nums underline decoration-dotted underline-offset-4">
+          {score.total}%
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="w-64">
+        <table className="w-full">
+          <tbody>
+            {score.breakdown.map(({ criterion, weight, rating, points }) => (
+              <tr key={criterion.key}>
+                <td className="pr-2">{criterion.label} ×{weight}</td>
+                <td className="pr-2 text-right tabular-nums">{rating === undefined ? 'no data' : `${Math.round(rating * 100)}%`}</td>
+                <td className="text-right tabular-nums">+{points.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </TooltipContent>
+    </Tooltip>
+  )
+}
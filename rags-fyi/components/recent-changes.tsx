@@ -0,0 +1,41 @@
+import Link from 'next/link'
+import { Rss } from 'lucide-react'
+import { describeChangeSet, type ChangeSet } from "@/lib/changelog"
+import { formatDate } from "@/lib/column-types"
+
+/** The latest catalogue changes, shown above the comparison table, with a link to the Atom feed. */
+export function RecentChanges({ changeSets }: { changeSets: ChangeSet[] }) {
+  if (changeSets.length === 0) return null
+
+  return (
+    <section className="mb-8 rounded-lg border p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Recently changed</h3>
+        <a href="/changes.xml" className="inline-flex items-center text-sm text-muted-foreground hover:underline">
+          <Rss className="mr-1 h-4 w-4" />
+          Subscribe
+        </a>
+      </div>
+      <ul className="space-y-1 text-sm">
+        {changeSets.map(changeSet => (
+          <li key={changeSet.id} className="flex gap-3">
+            <time dateTime={changeSet.date} className="w-24 shrink-0 text-muted-foreground">
+              {formatDate(changeSet.date)}
+            </time>
+            <span>
+              {changeSet.type === 'removed' ? (
+                <span className="font-medium">{changeSet.name}</span>
+              ) : (
+                <Link href={`/vendors/${changeSet.vendor}`} className="font-medium underline-offset-4 hover:underline">
+                  {changeSet.name}
+                </Link>
+              )}
+              {' — '}
+              {describeChangeSet(changeSet)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { Bookmark, Trash2 } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import type { SavedView } from "@/lib/column-layout"
+
+type SavedViewsProps = {
+  views: SavedView[]
+  onApply: (view: SavedView) => void
+  /** Saves the current layout, filters and sort under `name`, replacing a view with the same name. */
+  onSave: (name: string) => void
+  onDelete: (name: string) => void
+}
+
+/** Dropdown of named views (e.g. "Security review") that restore a column layout, filters and sort. */
+export function SavedViews({ views, onApply, onSave, onDelete }: SavedViewsProps) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+
+  const handleSave = () => {
+    onSave(name.trim())
+    setName('')
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <Bookmark className="mr-2 h-4 w-4" />
+          Views
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-2" align="end">
+        {views.length === 0 ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved views yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {views.map(view => (
+              <li key={view.name} className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  className="flex-1 justify-start truncate"
+                  onClick={() => {
+                    onApply(view)
+                    setOpen(false)
+                  }}
+                >
+                  {view.name}
+                </Button>
+                <Button variant="ghost" className="h-8 w-8 p-0" onClick={() => onDelete(view.name)}>
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Delete view {view.name}</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form
+          className="mt-2 flex gap-2 border-t px-2 pt-3"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSave()
+          }}
+        >
+          <Input
+            value={name}
+            placeholder="e.g. Security review"
+            aria-label="View name"
+            className="h-8"
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Button type="submit" size="sm" disabled={name.trim() === ''}>
+            Save
+          </Button>
+        </form>
+        <p className="px-2 pt-1 text-xs text-muted-foreground">Saves the current columns, filters and sort.</p>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -1,324 +1,849 @@
 /**
  * The `RaGsFyiTable` component is a reusable table component that displays a list of vendors with various data points. It supports filtering, sorting, and column selection.
  *
+ * Filtering, searching, sorting and pagination run on the server (see `@/lib/table-page`): the page renders the first `TablePage`, passed in through
+ * the `initialPage` prop, and the table fetches the next one with the `fetchTablePage` server action whenever the results or page change,
+ * so the browser only receives the rows it shows.
+ *
+ * `app/page.tsx` renders the page around the table on the server, and the table's first render, with the rows of `initialPage`, is also
+ * server-rendered before the controls hydrate. Sort headers and previous/next page buttons are links to the resulting URL and the search
+ * box is a GET form, so the table can be read, sorted and paged without JavaScript; with it, they update the table in place.
+ * Each column in `columns` (from `@/lib/vendor-schema`) has a type, and rendering, sorting and filtering go through the helpers in `@/lib/column-types` for that type.
+ *
+ * The table state (search, sort, visible columns, filters and page) is mirrored into the URL query string by `toQueryString()` from `@/lib/table-state`,
+ * so any view can be shared as a link. `initialState` is parsed from the URL on the server, and browser back/forward restores earlier states.
+ *
  * The component uses the following state variables:
- * - `vendors`: an array of `VendorData` objects representing the vendor data
- * - `filters`: an array of `Filter` objects representing the current filters applied to the table
- * - `sortColumn`: the column to sort the table by
- * - `sortDirection`: the direction to sort the table (ascending or descending)
- * - `selectedColumns`: an array of column keys representing the columns currently displayed in the table
- * - `tempFilters`: a temporary array of `Filter` objects used to update the filters before applying them
+ * - `filters`: the root `FilterGroup` of filters applied to the table; column popovers edit its top-level `Filter`s, the `FilterBuilder` dialog edits the whole tree
+ * - `search`: the global search query, matched fuzzily against every vendor attribute
+ * - `sort`: the `SortKey`s to sort the table by, in priority order; empty ranks rows by search relevance
+ * - `selectedColumns`: an array of column keys representing the columns currently displayed in the table, in display order
+ * - `compare`: slugs of the vendors selected for comparison, and `comparing`: whether the comparison view is open
+ * - `weights`: the "Rank for my needs" weight per scoring criterion, also remembered in localStorage
+ * - `columnWidths`: widths set by dragging header edges, and `savedViews`: named layouts with filters and sort; both kept in localStorage (see `@/lib/column-layout`)
+ * - `page` and `pageSize`: the page of results shown; changing the results or the page size returns to the first page
+ * - `tablePage`: the rows, scores and counts last received from the server for the state above
+ * - `activeCell`: the grid cell that is the table's tab stop, and `openFilter`: the column whose filter popover is open
  *
  * The component provides the following functionality:
  * - Filtering the vendor data based on the current filters
- * - Sorting the vendor data based on the current sort column and direction
- * - Allowing the user to select which columns to display in the table
- * - Providing a filter popover for each column to allow the user to apply filters
+ * - Paginating the results with a choice of page size and a result count, or showing them all; long pages only render the rows scrolled into view
+ * - Keeping the header row in view while scrolling the table
+ * - Searching across all attributes with typo tolerance, highlighting the matches in each cell
+ * - Sorting the vendor data by one or more columns (shift-click a header to add a tiebreaker), with empty values always last
+ * - Allowing the user to select which columns to display in the table with the `MultiSelect` picker, grouped by category, previewing changes live; the Name column cannot be hidden
+ * - Reordering columns by dragging their headers and resizing them by dragging header edges; the layout is remembered between visits
+ * - Saving and switching between named views from the `SavedViews` dropdown
+ * - Providing a filter popover for each column to allow the user to apply or reset filters
+ * - Showing the active filters as removable chips above the table, with a "Clear all" action
+ * - Selecting rows with checkboxes and comparing them side by side in the `VendorComparison` dialog
+ * - Building compound filters with nested AND/OR groups in the `FilterBuilder` dialog
+ * - Exporting the current view, including the match score while ranking (or the full dataset), as CSV, JSON or Markdown from the `ExportMenu`
+ * - Suggesting an edit to a row, or submitting a new vendor, through the `VendorSubmissionDialog` moderation queue
+ * - Ranking vendors by a weighted match score from the `RankingPanel`, shown as a sortable "Match score" column with a per-criterion breakdown on hover
+ * - Answering the `QuestionnaireDialog` wizard to set filters and ranking for the user's needs in one go
+ * - Linking each vendor name to its detail page at `/vendors/[slug]`
+ * - Showing each value's source and verification date in a tooltip, with a "Stale" badge on values older than `STALE_AFTER_DAYS` (see `@/lib/freshness`)
  * - Displaying a message when there are no vendors matching the current filters
+ * - Navigating the table as an ARIA grid from the keyboard: arrow keys, Home/End and PageUp/PageDown move between cells (see `@/lib/grid-navigation`),
+ *   Enter sorts by a header (Shift+Enter adds a tiebreaker) or activates a cell's link or button, and Alt+ArrowDown opens the column's filter
+ * - Exposing the primary sort through `aria-sort`, and announcing the result count in a live region when it changes
+ * - Jumping to a vendor's page or running a table action from the `CommandPalette` (Ctrl+K / ⌘K)
+ *
+ * Filter operators depend on the column's type (see `getFilterOptions()` in `@/lib/filters`), and each column's `ColumnFilterPopover` offers only those operators.
+ * Edits in a popover stay in a draft until "Apply" is pressed, so `filters` always holds the filters that are actually applied.
  *
- * The component uses various UI components from the `@/components/ui` module, such as `Table`, `Button`, `Popover`, and `Select`.
+ * The component uses various UI components from the `@/components/ui` module, such as `Table`, `Button`, `Input`, and `Checkbox`.
+ * Its colours come from the theme tokens in `app/globals.css` (`bg-muted` for the header row and striping), so it follows the light or dark theme.
  */
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
+import Link from 'next/link'
+import { useVirtualizer } from '@tanstack/react-virtual'
+import { fetchExportRows, fetchTablePage, fetchVerdicts } from "@/app/actions"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Check, ChevronsUpDown, Filter, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react'
+import { Checkbox } from "@/components/ui/checkbox"
+import { TooltipProvider } from "@/components/ui/tooltip"
+import { Columns3, Pencil, Plus, Search, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react'
 import { cn } from "@/lib/utils"
-import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem } from "@/components/ui/command"
-
-function MultiSelect({ options, selected, onChange, className }) {
-  const [open, setOpen] = useState(false)
-  const [tempSelected, setTempSelected] = useState(selected)
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { CellValue } from "@/components/cell-value"
+import { Highlight } from "@/components/highlight"
+import { ColumnFilterPopover } from "@/components/column-filter"
+import { FilterBar } from "@/components/filter-bar"
+import { FilterBuilder } from "@/components/filter-builder"
+import { ExportMenu } from "@/components/export-menu"
+import { VendorSubmissionDialog } from "@/components/vendor-submission-dialog"
+import { VendorComparison } from "@/components/vendor-comparison"
+import { MultiSelect } from "@/components/multi-select"
+import { CommandPalette, type PaletteAction } from "@/components/command-palette"
+import { SavedViews } from "@/components/saved-views"
+import { ProvenanceTooltip } from "@/components/provenance-tooltip"
+import { MatchScore, RankingPanel } from "@/components/ranking-panel"
+import { QuestionnaireDialog } from "@/components/questionnaire-dialog"
+import { TablePagination } from "@/components/table-pagination"
+import {
+  loadColumnLayout,
+  loadSavedViews,
+  MIN_COLUMN_WIDTH,
+  moveColumn,
+  storeColumnLayout,
+  storeSavedViews,
+  type ColumnWidths,
+  type SavedView
+} from "@/lib/column-layout"
+import {
+  emptyFilterGroup,
+  getFilteredColumns,
+  isFilterGroup,
+  type Filter,
+  type FilterGroup,
+  type ValueOptions
+} from "@/lib/filters"
+import { getGridTarget, type GridPosition } from "@/lib/grid-navigation"
+import type { Recommendation } from "@/lib/questionnaire"
+import {
+  decodeWeights,
+  encodeWeights,
+  hasWeights,
+  MATCH_SCORE_COLUMN,
+  type Weights
+} from "@/lib/scoring"
+import { MAX_SEARCH_LENGTH, parseSearchQuery } from "@/lib/search"
+import { toggleSort, type SortKey } from "@/lib/sort"
+import type { TablePage } from "@/lib/table-page"
+import {
+  ALL_ROWS,
+  defaultTableState,
+  MAX_COMPARED_VENDORS,
+  parseTableState,
+  serializeTableState,
+  toQueryString,
+  type TableState
+} from "@/lib/table-state"
+import { columns, type Column, type VendorData } from "@/lib/vendor-schema"
 
+/** Sort arrow for a column header, with the key's priority number when sorting by several columns. */
+function SortIndicator({ sort, column }: { sort: SortKey[], column: string }) {
+  const index = sort.findIndex(key => key.column === column)
+  if (index === -1) {
+    return <ArrowUpDown className="ml-2 h-4 w-4 opacity-0 group-hover:opacity-50" aria-hidden />
+  }
+  // The primary key is announced through the header's `aria-sort`, which cannot express tiebreakers.
   return (
-    <Popover open={open} onOpenChange={setOpen}>
-      <PopoverTrigger asChild>
-        <Button
-          variant="outline"
-          role="combobox"
-          aria-expanded={open}
-          className={`w-[200px] justify-between ${className}`}
-        >
-          {`${selected.length} selected`}
-          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-        </Button>
-      </PopoverTrigger>
-      <PopoverContent className="w-[200px] p-0">
-        <Command>
-          <CommandInput placeholder="Search columns..." />
-          <CommandEmpty>No column found.</CommandEmpty>
-          <CommandGroup>
-            {options.map((option) => (
-              <CommandItem
-                key={option.value}
-                onSelect={() => {
-                  setTempSelected(
-                    tempSelected.includes(option.value)
-                      ? tempSelected.filter((item) => item !== option.value)
-                      : [...tempSelected, option.value]
-                  )
-                }}
-              >
-                <Check
-                  className={cn(
-                    "mr-2 h-4 w-4",
-                    tempSelected.includes(option.value) ? "opacity-100" : "opacity-0"
-                  )}
-                />
-                {option.label}
-              </CommandItem>
-            ))}
-          </CommandGroup>
-        </Command>
-        <div className="p-2">
-          <Button
-            onClick={() => {
-              onChange(tempSelected)
-              setOpen(false)
-            }}
-            className="w-full"
-          >
-            Apply
-          </Button>
-        </div>
-      </PopoverContent>
-    </Popover>
+    <span className="ml-2 inline-flex items-center">
+      {sort[index].direction === 'asc' ? <ArrowUp className="h-4 w-4" aria-hidden /> : <ArrowDown className="h-4 w-4" aria-hidden />}
+      {sort.length > 1 && <span className="text-xs font-normal tabular-nums" aria-hidden>{index + 1}</span>}
+      {index > 0 && <span className="sr-only">, then sorted {sort[index].direction === 'asc' ? 'ascending' : 'descending'}</span>}
+    </span>
   )
 }
-type VendorData = {
-  name: string
-  usp: string
-  oss: string
-  pricing: string
-  [key: string]: string
+
+/**
+ * A header label linking to the view sorted by its column, so sorting works without JavaScript.
+ * With JavaScript the header's click handler sorts in place instead of following the link.
+ */
+function SortLink({ href, tabIndex, children }: { href: string, tabIndex?: number, children: React.ReactNode }) {
+  return (
+    <a href={href} draggable={false} tabIndex={tabIndex} className="flex items-center select-none" onClick={(e) => e.preventDefault()}>
+      {children}
+    </a>
+  )
 }
 
-type FilterOption = 'equals' | 'not-equals' | 'contains' | 'not-contains'
+/** Columns that cannot be hidden, so every row stays identifiable. */
+const LOCKED_COLUMNS = ['name']
+
+/** localStorage key under which the "Rank for my needs" weights are remembered between visits. */
+const WEIGHTS_STORAGE_KEY = 'rags-fyi:weights'
+
+/** How long typing a search or dragging a weight has to pause before it fetches new results. */
+const RESULTS_DEBOUNCE_MS = 300
+
+/** Pages with more rows than this only render the rows scrolled into view. */
+const VIRTUALIZE_AFTER_ROWS = 100
 
-type Filter = {
-  column: string
-  option: FilterOption
-  value: string
+/** Height of a row in pixels before it is measured, for virtualized pages. */
+const ESTIMATED_ROW_HEIGHT = 53
+
+/** The query for the parts of `state` that decide which rows match and how they are split into pages. */
+function getResultsQuery(state: TableState): string {
+  const { search, sort, filters, weights, pageSize } = state
+  return toQueryString({ ...defaultTableState, search, sort, filters, weights, pageSize })
 }
 
-const initialVendors: VendorData[] = [
-  { name: "Vectara", usp: "Enterprise-grade AI search", oss: "No", pricing: "Usage-based" },
-  { name: "LlamaCloud", usp: "Open-source RAG platform", oss: "Yes", pricing: "Free tier available" }
-]
+type RaGsFyiTableProps = {
+  /** The page for `initialState`, rendered on the server. */
+  initialPage: TablePage
+  /** Selectable filter values per column for the whole catalogue. */
+  valueOptions: ValueOptions
+  /** Slug and name of every vendor, for the command palette. */
+  vendorIndex: Pick<VendorData, 'slug' | 'name'>[]
+  initialState?: TableState
+}
 
-const columns = [
-  { key: 'name', label: 'Name' },
-  { key: 'usp', label: 'USP' },
-  { key: 'oss', label: 'Open Source' },
-  { key: 'pricing', label: 'Pricing' }
-]
+export function RaGsFyiTable({ initialPage, valueOptions, vendorIndex, initialState = defaultTableState }: RaGsFyiTableProps) {
+  const [filters, setFilters] = useState<FilterGroup>(initialState.filters)
+  const [search, setSearch] = useState(initialState.search)
+  const [sort, setSort] = useState<SortKey[]>(initialState.sort)
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(initialState.selectedColumns)
+  const [compare, setCompare] = useState<string[]>(initialState.compare)
+  const [comparing, setComparing] = useState(initialState.comparing)
+  const [weights, setWeights] = useState<Weights>(initialState.weights)
+  // The server clamps a page past the end of the results, e.g. from an old link.
+  const [page, setPage] = useState(initialPage.page)
+  const [pageSize, setPageSize] = useState(initialState.pageSize)
+  const [tablePage, setTablePage] = useState<TablePage>(initialPage)
+  const [loading, setLoading] = useState(false)
+  const [loadError, setLoadError] = useState(false)
+  const [columnWidths, setColumnWidths] = useState<ColumnWidths>({})
+  const [savedViews, setSavedViews] = useState<SavedView[]>([])
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null)
+  // The grid cell that takes focus when tabbing into the table, and the column whose filter popover is open.
+  const [activeCell, setActiveCell] = useState<GridPosition>({ row: 0, col: 0 })
+  const [openFilter, setOpenFilter] = useState<string | null>(null)
+  // The grid keyboard handling needs JavaScript, so until hydration links and buttons keep their own tab stops.
+  const [hydrated, setHydrated] = useState(false)
+  // The vendor being corrected, `null` for a new vendor, or `undefined` while the submission dialog is closed.
+  const [submissionTarget, setSubmissionTarget] = useState<VendorData | null | undefined>(undefined)
 
-function Header() {
-  return (
-    <header className="bg-blue-600 text-white py-4">
-      <div className="container mx-auto flex justify-between items-center">
-        <h1 className="text-2xl font-bold">RAGs.FYI Comparison</h1>
-        <nav>
-          <ul className="flex space-x-4">
-            <li><a href="#" className="hover:underline">Home</a></li>
-            <li><a href="#" className="hover:underline">About</a></li>
-            <li><a href="#" className="hover:underline">Contact</a></li>
-          </ul>
-        </nav>
-      </div>
-    </header>
+  const tableState = useMemo<TableState>(
+    () => ({ search, sort, selectedColumns, filters, compare, comparing, weights, page, pageSize }),
+    [search, sort, selectedColumns, filters, compare, comparing, weights, page, pageSize]
   )
-}
+  // The search box, highlighting and sliders follow every change; the results follow once changes pause.
+  const [debouncedSearch, setDebouncedSearch] = useDebouncedValue(search, RESULTS_DEBOUNCE_MS)
+  const [debouncedWeights, setDebouncedWeights] = useDebouncedValue(weights, RESULTS_DEBOUNCE_MS)
+  useEffect(() => setHydrated(true), [])
 
-function Footer() {
-  return (
-    <footer className="bg-gray-800 text-white py-6 mt-8">
-      <div className="container mx-auto text-center">
-        <p>© 2023 RAGs.FYI. All rights reserved.</p>
-        <div className="mt-4">
-          <a href="#" className="hover:underline mx-2">Privacy Policy</a>
-          <a href="#" className="hover:underline mx-2">Terms of Service</a>
-          <a href="#" className="hover:underline mx-2">Contact Us</a>
-        </div>
-      </div>
-    </footer>
+  const lastSyncedState = useRef(initialState)
+  // Set when state is restored from localStorage or corrected, which should not add a history entry.
+  const replaceNextSync = useRef(initialPage.page !== initialState.page)
+
+  useEffect(() => {
+    const previous = lastSyncedState.current
+    const replace = replaceNextSync.current
+    lastSyncedState.current = tableState
+    replaceNextSync.current = false
+    const query = toQueryString(tableState)
+    if (query === window.location.search) return
+
+    const url = `${window.location.pathname}${query}${window.location.hash}`
+    // Typing in the search box or dragging a weight replaces the current history entry instead of adding
+    // one per keystroke or slider step.
+    if (replace || toQueryString({ ...previous, search: tableState.search, weights: tableState.weights }) === query) {
+      window.history.replaceState(null, '', url)
+    } else {
+      window.history.pushState(null, '', url)
+    }
+  }, [tableState])
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseTableState(new URLSearchParams(window.location.search))
+      lastSyncedState.current = state
+      setFilters(state.filters)
+      setSearch(state.search)
+      setDebouncedSearch(state.search)
+      setSort(state.sort)
+      setSelectedColumns(state.selectedColumns)
+      setCompare(state.compare)
+      setComparing(state.comparing)
+      setWeights(state.weights)
+      setDebouncedWeights(state.weights)
+      setPage(state.page)
+      setPageSize(state.pageSize)
+      setPagedResultsQuery(getResultsQuery(state))
+    }
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [setDebouncedSearch, setDebouncedWeights])
+
+  useEffect(() => {
+    // Weights (and sort) in a shared link win over the weights remembered from earlier visits.
+    const params = new URLSearchParams(window.location.search)
+    if (params.has('w')) return
+    const stored = decodeWeights(window.localStorage.getItem(WEIGHTS_STORAGE_KEY) ?? '')
+    if (hasWeights(stored)) {
+      replaceNextSync.current = true
+      setWeights(stored)
+      setDebouncedWeights(stored)
+      if (!params.has('sort')) setSort([{ column: MATCH_SCORE_COLUMN.key, direction: 'desc' }])
+    }
+  }, [setDebouncedWeights])
+
+  useEffect(() => {
+    const encoded = encodeWeights(weights)
+    if (encoded) window.localStorage.setItem(WEIGHTS_STORAGE_KEY, encoded)
+    else window.localStorage.removeItem(WEIGHTS_STORAGE_KEY)
+  }, [weights])
+
+  useEffect(() => {
+    // Columns in a shared link win over the layout remembered from earlier visits; widths always apply.
+    const layout = loadColumnLayout()
+    if (layout) {
+      setColumnWidths(layout.widths)
+      const restored = layout.columns.filter(key => columns.some(column => column.key === key))
+      if (!new URLSearchParams(window.location.search).has('cols') && restored.length > 0) {
+        replaceNextSync.current = true
+        setSelectedColumns(restored)
+      }
+    }
+    setSavedViews(loadSavedViews())
+  }, [])
+
+  useEffect(() => {
+    storeColumnLayout({ columns: selectedColumns, widths: columnWidths })
+  }, [selectedColumns, columnWidths])
+
+  const resultsState = useMemo(
+    () => ({ ...tableState, search: debouncedSearch, weights: debouncedWeights }),
+    [tableState, debouncedSearch, debouncedWeights]
   )
-}
 
-export function RaGsFyiTable() {
-  const [vendors, setVendors] = useState<VendorData[]>(initialVendors)
-  const [filters, setFilters] = useState<Filter[]>([])
-  const [sortColumn, setSortColumn] = useState('name')
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc')
-  const [selectedColumns, setSelectedColumns] = useState<string[]>(columns.map(col => col.key))
-  const [tempFilters, setTempFilters] = useState<Filter[]>([])
-
-
-  const filteredVendors = useMemo(() => {
-    return vendors.filter(vendor =>
-      filters.every(filter => {
-        const value = vendor[filter.column]
-        if (value === undefined) return true
-        switch (filter.option) {
-          case 'equals':
-            return value.toLowerCase() === filter.value.toLowerCase()
-          case 'not-equals':
-            return value.toLowerCase() !== filter.value.toLowerCase()
-          case 'contains':
-            return value.toLowerCase().includes(filter.value.toLowerCase())
-          case 'not-contains':
-            return !value.toLowerCase().includes(filter.value.toLowerCase())
-          default:
-            return true
+  // Changing the results or the page size returns to the first page. Adjusted while rendering, so the
+  // page of the previous results is never fetched.
+  const resultsQuery = getResultsQuery(resultsState)
+  const [pagedResultsQuery, setPagedResultsQuery] = useState(resultsQuery)
+  if (resultsQuery !== pagedResultsQuery) {
+    setPagedResultsQuery(resultsQuery)
+    setPage(1)
+  }
+
+  // The query `tablePage` was fetched for; the server rendered the one for `initialState`. Comparing
+  // does not change the rows, so selecting vendors to compare never refetches the page.
+  const pageQuery = toQueryString({
+    ...resultsState,
+    selectedColumns: defaultTableState.selectedColumns,
+    compare: defaultTableState.compare,
+    comparing: false
+  })
+  const fetchedQuery = useRef(pageQuery)
+
+  useEffect(() => {
+    if (pageQuery === fetchedQuery.current) return
+    fetchedQuery.current = pageQuery
+    let cancelled = false
+    setLoading(true)
+    fetchTablePage(pageQuery).then(
+      result => {
+        if (cancelled) return
+        setTablePage(result)
+        setLoadError(false)
+        setLoading(false)
+        if (result.page !== page) {
+          // The results shrank below the requested page; show the last one without another fetch.
+          fetchedQuery.current = toQueryString({ ...parseTableState(new URLSearchParams(pageQuery)), page: result.page })
+          replaceNextSync.current = true
+          setPage(result.page)
         }
-      })
+      },
+      () => {
+        if (cancelled) return
+        setLoadError(true)
+        setLoading(false)
+      }
     )
-  }, [vendors, filters])
-
-  const sortedVendors = useMemo(() => {
-    return [...filteredVendors].sort((a, b) => {
-      const aValue = a[sortColumn] || ''
-      const bValue = b[sortColumn] || ''
-      if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1
-      if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1
-      return 0
-    })
-  }, [filteredVendors, sortColumn, sortDirection])
+    return () => {
+      cancelled = true
+    }
+  }, [pageQuery, page])
 
-  const handleSort = (column: string) => {
-    if (column === sortColumn) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')
-    } else {
-      setSortColumn(column)
-      setSortDirection('asc')
+  // Every vendor shown so far, so vendors selected for comparison on other pages stay at hand.
+  const seenVendors = useRef(new Map(initialPage.compared.map(vendor => [vendor.slug, vendor])))
+  useEffect(() => {
+    tablePage.rows.forEach(vendor => seenVendors.current.set(vendor.slug, vendor))
+  }, [tablePage])
+
+  const searchTerms = useMemo(() => parseSearchQuery(search), [search])
+
+  const rows = tablePage.rows
+  const scored = hasWeights(weights)
+
+  const tableRef = useRef<HTMLTableElement>(null)
+  const virtualized = rows.length > VIRTUALIZE_AFTER_ROWS
+  const rowVirtualizer = useVirtualizer({
+    count: rows.length,
+    // The scrolling wrapper `Table` renders around the `<table>`.
+    getScrollElement: () => tableRef.current?.parentElement ?? null,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: 10,
+    enabled: virtualized,
+    // Until the table can be measured, e.g. on the server, render as many rows as an unvirtualized page.
+    initialRect: { width: 0, height: VIRTUALIZE_AFTER_ROWS * ESTIMATED_ROW_HEIGHT }
+  })
+  const virtualRows = virtualized ? rowVirtualizer.getVirtualItems() : []
+  const renderedRows = virtualized ? virtualRows.map(item => item.index) : rows.map((_, index) => index)
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0
+  const paddingBottom = virtualRows.length > 0 ? rowVirtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0
+  const firstRowNumber = pageSize === ALL_ROWS ? 1 : (tablePage.page - 1) * pageSize + 1
+
+  const handlePageChange = (next: number) => {
+    setPage(next)
+    tableRef.current?.parentElement?.scrollTo({ top: 0 })
+  }
+
+  const handleSort = (column: string, additive: boolean) => {
+    setSort(prev => toggleSort(prev, column, additive))
+  }
+
+  // Links for reading without JavaScript; `?` alone links to the default view.
+  const getSortHref = (column: string) => toQueryString({ ...tableState, sort: toggleSort(sort, column, false), page: 1 }) || '?'
+  const getPageHref = (target: number) => toQueryString({ ...tableState, page: target }) || '?'
+
+  const comparedVendors = compare
+    .map(slug => rows.find(vendor => vendor.slug === slug) ?? seenVendors.current.get(slug))
+    .filter((vendor): vendor is VendorData => vendor !== undefined)
+
+  // Locked columns are shown even when a link or saved layout leaves them out.
+  const visibleColumns = [...LOCKED_COLUMNS.filter(key => !selectedColumns.includes(key)), ...selectedColumns]
+    .map(key => columns.find(column => column.key === key))
+    .filter((column): column is Column => column !== undefined)
+
+  const toggleCompare = (slug: string) => {
+    setCompare(prev => prev.includes(slug) ? prev.filter(item => item !== slug) : [...prev, slug])
+  }
+
+  const handleSearchChange = (value: string) => {
+    // Starting a search switches to relevance order; clicking a header afterwards sorts by that column.
+    if (search.trim() === '' && value.trim() !== '') setSort([])
+    if (value.trim() === '' && sort.length === 0) setSort(defaultTableState.sort)
+    setSearch(value)
+  }
+
+  const handleWeightsChange = (next: Weights) => {
+    // Setting the first weight ranks by match score; clearing them all drops it from the sort.
+    if (!hasWeights(weights) && hasWeights(next)) {
+      setSort([{ column: MATCH_SCORE_COLUMN.key, direction: 'desc' }])
+    } else if (hasWeights(weights) && !hasWeights(next)) {
+      setSort(prev => {
+        const remaining = prev.filter(key => key.column !== MATCH_SCORE_COLUMN.key)
+        return remaining.length > 0 || search.trim() !== '' ? remaining : defaultTableState.sort
+      })
+    }
+    setWeights(next)
+  }
+
+  // Applying a recommendation or a saved view is a single change, so its results are fetched without waiting.
+  const handleRecommendationApply = (recommendation: Recommendation) => {
+    setSearch('')
+    setDebouncedSearch('')
+    setFilters(recommendation.filters)
+    setWeights(recommendation.weights)
+    setDebouncedWeights(recommendation.weights)
+    setSort(recommendation.sort)
+  }
+
+  const handleResizeStart = (column: string, event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    const startX = event.clientX
+    const startWidth = (event.currentTarget.parentElement as HTMLElement).getBoundingClientRect().width
+    const handleMove = (e: PointerEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + e.clientX - startX))
+      setColumnWidths(prev => ({ ...prev, [column]: width }))
     }
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+    }
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+  }
+
+  const handleViewSave = (name: string) => {
+    const view: SavedView = {
+      name,
+      query: toQueryString({ ...defaultTableState, selectedColumns, filters, sort, weights, pageSize }),
+      widths: columnWidths
+    }
+    const next = [...savedViews.filter(existing => existing.name !== name), view]
+    setSavedViews(next)
+    storeSavedViews(next)
+  }
+
+  const handleViewApply = (view: SavedView) => {
+    const state = parseTableState(new URLSearchParams(view.query))
+    setSearch('')
+    setDebouncedSearch('')
+    setSelectedColumns(state.selectedColumns)
+    setFilters(state.filters)
+    setSort(state.sort)
+    setWeights(state.weights)
+    setDebouncedWeights(state.weights)
+    setPageSize(state.pageSize)
+    setColumnWidths(view.widths)
+  }
+
+  const handleViewDelete = (name: string) => {
+    const next = savedViews.filter(view => view.name !== name)
+    setSavedViews(next)
+    storeSavedViews(next)
+  }
+
+  const findColumnFilter = (column: string) => {
+    return filters.conditions.find((node): node is Filter => !isFilterGroup(node) && node.column === column)
   }
 
-  const handleFilterChange = (column: string, option: FilterOption, value: string) => {
-    setTempFilters(prev => {
-      const existingFilterIndex = prev.findIndex(filter => filter.column === column)
+  const handleFilterApply = (filter: Filter) => {
+    setFilters(prev => {
+      const existingFilterIndex = prev.conditions.findIndex(node => !isFilterGroup(node) && node.column === filter.column)
       if (existingFilterIndex !== -1) {
-        const newFilters = [...prev]
-        newFilters[existingFilterIndex] = { column, option, value }
-        return newFilters
+        const newConditions = [...prev.conditions]
+        newConditions[existingFilterIndex] = filter
+        return { ...prev, conditions: newConditions }
       } else {
-        return [...prev, { column, option, value }]
+        return { ...prev, conditions: [...prev.conditions, filter] }
       }
     })
   }
 
-  const getFilterOptions = (): FilterOption[] => {
-    return ['equals', 'not-equals', 'contains', 'not-contains']
+  const handleFilterRemove = (column: string) => {
+    setFilters(prev => ({
+      ...prev,
+      conditions: prev.conditions.filter(node => isFilterGroup(node) || node.column !== column)
+    }))
   }
 
+  const filteredColumns = getFilteredColumns(filters)
+
+  // Grid columns: S.No, the match score while ranking, the visible columns, then the row actions.
+  const firstColumnIndex = scored ? 2 : 1
+  const gridColumnCount = firstColumnIndex + visibleColumns.length + 1
+  const gridRowCount = rows.length + 1
+  // Kept inside the grid when rows or columns go away, so the table always has a tab stop.
+  const tabStop = { row: Math.min(activeCell.row, gridRowCount - 1), col: Math.min(activeCell.col, gridColumnCount - 1) }
+
+  // Controls inside cells are reached through their cell once the grid is interactive.
+  const innerTabIndex = hydrated ? -1 : undefined
+
+  const getCellProps = (row: number, col: number, column?: string) => ({
+    'data-grid-row': row,
+    'data-grid-col': col,
+    'data-column': column,
+    tabIndex: hydrated ? (tabStop.row === row && tabStop.col === col ? 0 : -1) : undefined,
+    onFocus: () => setActiveCell({ row, col })
+  })
+
+  const getAriaSort = (column: string): 'ascending' | 'descending' | undefined => {
+    if (sort[0]?.column !== column) return undefined
+    return sort[0].direction === 'asc' ? 'ascending' : 'descending'
+  }
+
+  const focusCell = (position: GridPosition) => {
+    setActiveCell(position)
+    const findCell = () => tableRef.current?.querySelector<HTMLElement>(`[data-grid-row="${position.row}"][data-grid-col="${position.col}"]`)
+    const cell = findCell()
+    if (cell) {
+      cell.focus()
+      return
+    }
+    // Virtualized rows outside the viewport are only rendered once scrolled to.
+    rowVirtualizer.scrollToIndex(position.row - 1)
+    requestAnimationFrame(() => findCell()?.focus())
+  }
+
+  const handleGridKeyDown = (event: React.KeyboardEvent<HTMLTableElement>) => {
+    const target = event.target as HTMLElement
+    const cell = target.closest<HTMLElement>('[data-grid-row]')
+    // Keys pressed in popovers opened from a header, which are portalled outside the table, are not grid navigation.
+    if (!cell || !tableRef.current?.contains(cell) || target.matches('input, textarea, select')) return
+
+    const position = { row: Number(cell.dataset.gridRow), col: Number(cell.dataset.gridCol) }
+    const column = cell.dataset.column
+
+    if (event.altKey && event.key === 'ArrowDown') {
+      if (column && columns.some(col => col.key === column)) {
+        event.preventDefault()
+        setOpenFilter(column)
+      }
+      return
+    }
+    if ((event.key === 'Enter' || event.key === ' ') && target === cell) {
+      event.preventDefault()
+      if (position.row > 0) cell.querySelector<HTMLElement>('a, button')?.click()
+      else if (column) handleSort(column, event.shiftKey)
+      return
+    }
+    const next = getGridTarget(event, position, gridRowCount, gridColumnCount)
+    if (next) {
+      event.preventDefault()
+      focusCell(next)
+    }
+  }
+
+  const paletteActions: PaletteAction[] = [
+    { key: 'submit', label: 'Submit a vendor', group: 'Actions', onSelect: () => setSubmissionTarget(null) },
+    ...(compare.length >= 2
+      ? [{ key: 'compare', label: `Compare ${compare.length} selected vendors`, group: 'Actions', onSelect: () => setComparing(true) }]
+      : []),
+    ...(search.trim() !== ''
+      ? [{ key: 'clear-search', label: 'Clear search', group: 'Actions', onSelect: () => handleSearchChange('') }]
+      : []),
+    ...(filters.conditions.length > 0
+      ? [{ key: 'clear-filters', label: 'Clear all filters', group: 'Actions', onSelect: () => setFilters(emptyFilterGroup()) }]
+      : []),
+    ...(hasWeights(weights)
+      ? [{ key: 'clear-ranking', label: 'Clear ranking', group: 'Actions', onSelect: () => handleWeightsChange({}) }]
+      : []),
+    {
+      key: 'reset-columns',
+      label: 'Reset columns to default',
+      group: 'Actions',
+      onSelect: () => setSelectedColumns(defaultTableState.selectedColumns)
+    },
+    ...visibleColumns.map(column => ({
+      key: `sort-${column.key}`,
+      label: `Sort by ${column.label}`,
+      group: 'Sort',
+      onSelect: () => setSort([{ column: column.key, direction: 'asc' }])
+    }))
+  ]
+
   return (
     <div>
-      <Header />
-      <div className="container mx-auto p-4">
-        <h2 className="text-3xl font-bold mb-6 text-center">Compare RAG Vendors</h2>
-        <p className="text-lg mb-8 text-center">Find the best Retrieval-Augmented Generation solution for your needs.</p>
-
-        <div className="mb-4 flex justify-end">
-          <MultiSelect
-            options={columns.map(col => ({ value: col.key, label: col.label }))}
-            selected={selectedColumns}
-            onChange={setSelectedColumns}
-            className="w-[200px]"
+      <div className="mb-4 flex flex-wrap items-center justify-end gap-2">
+        {/* Without JavaScript, pressing Enter submits the search with the rest of the view as a normal GET request. */}
+        <form role="search" className="relative mr-auto w-full max-w-sm" onSubmit={(e) => e.preventDefault()}>
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="search"
+            name="q"
+            placeholder="Search vendors..."
+            aria-label="Search vendors"
+            className="pl-8"
+            value={search}
+            maxLength={MAX_SEARCH_LENGTH}
+            onChange={(e) => handleSearchChange(e.target.value)}
           />
-        </div>
-        <div className="overflow-x-auto border rounded-lg shadow">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead className="w-[50px] font-bold sticky left-0 z-20 bg-gray-100">S.No</TableHead>
-                {columns.filter(column => selectedColumns.includes(column.key)).map(column => (
-                  <TableHead
-                    key={column.key}
-                    className="cursor-pointer bg-gray-100 font-bold group"
-                    onClick={() => handleSort(column.key)}
-                  >
-                    <div className="flex items-center justify-between w-full h-full">
-                      <span className="flex items-center">
-                        {column.label}
-                        {sortColumn === column.key ? (
-                          sortDirection === 'asc' ? (
-                            <ArrowUp className="ml-2 h-4 w-4" />
-                          ) : (
-                            <ArrowDown className="ml-2 h-4 w-4" />
-                          )
+          {Array.from(serializeTableState({ ...tableState, search: '', page: defaultTableState.page })).map(([key, value]) => (
+            <input key={key} type="hidden" name={key} value={value} />
+          ))}
+        </form>
+        <Button variant="outline" disabled={compare.length < 2} onClick={() => setComparing(true)}>
+          <Columns3 className="mr-2 h-4 w-4" />
+          Compare ({compare.length})
+        </Button>
+        <QuestionnaireDialog loadVerdicts={fetchVerdicts} onApply={handleRecommendationApply} />
+        <RankingPanel weights={weights} onChange={handleWeightsChange} />
+        <FilterBuilder columns={columns} valueOptions={valueOptions} filters={filters} onApply={setFilters} />
+        <MultiSelect
+          options={columns.map(col => ({
+            value: col.key,
+            label: col.label,
+            category: col.category,
+            locked: LOCKED_COLUMNS.includes(col.key)
+          }))}
+          selected={selectedColumns}
+          defaultSelected={defaultTableState.selectedColumns}
+          onChange={setSelectedColumns}
+        />
+        <SavedViews views={savedViews} onApply={handleViewApply} onSave={handleViewSave} onDelete={handleViewDelete} />
+        <ExportMenu
+          columns={scored ? [MATCH_SCORE_COLUMN, ...visibleColumns] : visibleColumns}
+          allColumns={columns}
+          total={tablePage.total}
+          catalogueSize={tablePage.catalogueSize}
+          loadVendors={(fullDataset) => fetchExportRows(toQueryString(tableState), fullDataset)}
+        />
+        <CommandPalette vendors={vendorIndex} actions={paletteActions} />
+        <Button onClick={() => setSubmissionTarget(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Submit a vendor
+        </Button>
+      </div>
+      <FilterBar
+        columns={columns}
+        filters={filters}
+        onRemove={(index) => setFilters(prev => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }))}
+        onClearAll={() => setFilters(emptyFilterGroup())}
+      />
+      {loadError && (
+        <p className="mb-2 text-sm text-destructive" role="alert">Could not load the vendors. Change a filter or reload the page to try again.</p>
+      )}
+      <TooltipProvider delayDuration={300}>
+      <div className="border rounded-lg shadow [&>div]:max-h-[75vh]">
+        <Table
+          ref={tableRef}
+          role="grid"
+          aria-label="RAG vendors"
+          aria-rowcount={tablePage.total + 1}
+          aria-colcount={gridColumnCount}
+          aria-busy={loading}
+          onKeyDown={handleGridKeyDown}
+        >
+          <TableHeader className="sticky top-0 z-30 bg-muted">
+            <TableRow aria-rowindex={1}>
+              <TableHead className="w-[80px] font-bold sticky left-0 z-20 bg-muted" {...getCellProps(0, 0)}>S.No</TableHead>
+              {scored && (
+                <TableHead
+                  className="cursor-pointer bg-muted font-bold group"
+                  onClick={(e) => handleSort(MATCH_SCORE_COLUMN.key, e.shiftKey)}
+                  title="Click or press Enter to sort, shift to add as a secondary sort"
+                  aria-sort={getAriaSort(MATCH_SCORE_COLUMN.key)}
+                  {...getCellProps(0, 1, MATCH_SCORE_COLUMN.key)}
+                >
+                  <SortLink href={getSortHref(MATCH_SCORE_COLUMN.key)} tabIndex={innerTabIndex}>
+                    {MATCH_SCORE_COLUMN.label}
+                    <SortIndicator sort={sort} column={MATCH_SCORE_COLUMN.key} />
+                  </SortLink>
+                </TableHead>
+              )}
+              {visibleColumns.map((column, columnIndex) => (
+                <TableHead
+                  key={column.key}
+                  aria-sort={getAriaSort(column.key)}
+                  aria-keyshortcuts="Alt+ArrowDown"
+                  {...getCellProps(0, firstColumnIndex + columnIndex, column.key)}
+                  className={cn("relative cursor-pointer bg-muted font-bold group", draggedColumn === column.key && "opacity-50")}
+                  style={columnWidths[column.key] ? { width: columnWidths[column.key], minWidth: columnWidths[column.key], maxWidth: columnWidths[column.key] } : undefined}
+                  onClick={(e) => handleSort(column.key, e.shiftKey)}
+                  title="Click or press Enter to sort, shift to add as a secondary sort, Alt+↓ to filter, drag to reorder"
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    setDraggedColumn(column.key)
+                  }}
+                  onDragOver={(e) => draggedColumn && e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault()
+                    if (draggedColumn) setSelectedColumns(prev => moveColumn(prev, draggedColumn, column.key))
+                  }}
+                  onDragEnd={() => setDraggedColumn(null)}
+                >
+                  <div className="flex items-center justify-between w-full h-full">
+                    <SortLink href={getSortHref(column.key)} tabIndex={innerTabIndex}>
+                      {column.label}
+                      <SortIndicator sort={sort} column={column.key} />
+                    </SortLink>
+                    <ColumnFilterPopover
+                      column={column}
+                      filter={findColumnFilter(column.key)}
+                      active={filteredColumns.includes(column.key)}
+                      valueOptions={valueOptions[column.key] ?? []}
+                      onApply={handleFilterApply}
+                      onReset={() => handleFilterRemove(column.key)}
+                      open={openFilter === column.key}
+                      onOpenChange={(open) => setOpenFilter(open ? column.key : null)}
+                    />
+                  </div>
+                  <div
+                    role="separator"
+                    aria-orientation="vertical"
+                    aria-label={`Resize ${column.label}`}
+                    title="Drag to resize, double-click to reset"
+                    className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize select-none hover:bg-primary/30"
+                    onPointerDown={(e) => handleResizeStart(column.key, e)}
+                    onClick={(e) => e.stopPropagation()}
+                    onDoubleClick={() => setColumnWidths(prev => {
+                      const { [column.key]: _removed, ...rest } = prev
+                      return rest
+                    })}
+                  />
+                </TableHead>
+              ))}
+              <TableHead className="w-[50px] bg-muted" {...getCellProps(0, gridColumnCount - 1)}>
+                <span className="sr-only">Actions</span>
+              </TableHead>
+            </TableRow>          </TableHeader>
+          <TableBody className={cn(loading && "opacity-60")}>
+            {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+            {renderedRows.map(index => {
+              const vendor = rows[index]
+              return (
+                <TableRow
+                  key={vendor.slug}
+                  ref={virtualized ? rowVirtualizer.measureElement : undefined}
+                  data-index={index}
+                  aria-rowindex={firstRowNumber + index + 1}
+                  className={index % 2 === 0 ? 'bg-background' : 'bg-muted'}
+                >
+                  <TableCell className="sticky left-0 z-10 bg-inherit" {...getCellProps(index + 1, 0)}>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        tabIndex={innerTabIndex}
+                        checked={compare.includes(vendor.slug)}
+                        disabled={!compare.includes(vendor.slug) && compare.length >= MAX_COMPARED_VENDORS}
+                        onCheckedChange={() => toggleCompare(vendor.slug)}
+                        aria-label={`Select ${vendor.name} for comparison`}
+                      />
+                      {firstRowNumber + index}
+                    </div>
+                  </TableCell>
+                  {scored && (
+                    <TableCell {...getCellProps(index + 1, 1)}>
+                      <MatchScore score={tablePage.scores[vendor.slug]} />
+                    </TableCell>
+                  )}
+                  {visibleColumns.map((column, columnIndex) => (
+                    <TableCell key={column.key} {...getCellProps(index + 1, firstColumnIndex + columnIndex, column.key)}>
+                      <ProvenanceTooltip vendor={vendor} column={column} provenance={tablePage.provenance[vendor.slug]?.[column.key]}>
+                        {column.key === 'name' ? (
+                          <Link href={`/vendors/${vendor.slug}`} tabIndex={innerTabIndex} className="font-medium underline-offset-4 hover:underline">
+                            <Highlight text={vendor.name} terms={searchTerms} />
+                          </Link>
                         ) : (
-                          <ArrowUpDown className="ml-2 h-4 w-4 opacity-0 group-hover:opacity-50" />
+                          <CellValue column={column} value={vendor[column.key]} terms={searchTerms} />
                         )}
-                      </span>
-                      <Popover>
-                        <PopoverTrigger asChild>
-                          <Button variant="ghost" className="h-8 w-8 p-0" onClick={(e) => e.stopPropagation()}>
-                            <Filter className="h-4 w-4" />
-                            <span className="sr-only">Filter {column.label}</span>
-                          </Button>
-                        </PopoverTrigger>
-                        <PopoverContent className="w-80">
-                          <div className="space-y-4">
-                            <h4 className="font-medium leading-none">Filter {column.label}</h4>
-                            <Select
-                              onValueChange={(value) =>
-                                handleFilterChange(column.key, value as FilterOption,
-                                  filters.find(f => f.column === column.key)?.value || ''
-                                )
-                              }
-                            >
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select filter option" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {getFilterOptions().map(option => (
-                                  <SelectItem key={option} value={option}>
-                                    {option.replace('-', ' ')}
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                            <Input
-                              placeholder={`Enter filter value...`}
-                              value={filters.find(f => f.column === column.key)?.value || ''}
-                              onChange={(e) => handleFilterChange(
-                                column.key,
-                                filters.find(f => f.column === column.key)?.option || 'equals',
-                                e.target.value
-                              )}
-                            />
-                          </div>
-                        </PopoverContent>
-                      </Popover>
-                    </div>
-                  </TableHead>
-                ))}
-              </TableRow>          </TableHeader>
-            <TableBody>
-              {sortedVendors.map((vendor, index) => (
-                <TableRow key={vendor.name} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
-                  <TableCell className="sticky left-0 z-10 bg-inherit">{index + 1}</TableCell>
-                  {columns.filter(column => selectedColumns.includes(column.key)).map(column => (
-                    <TableCell key={column.key}>
-                      {vendor[column.key as keyof typeof vendor] || ''}
+                      </ProvenanceTooltip>
                     </TableCell>
                   ))}
+                  <TableCell {...getCellProps(index + 1, gridColumnCount - 1)}>
+                    <Button
+                      variant="ghost"
+                      tabIndex={innerTabIndex}
+                      className="h-8 w-8 p-0"
+                      title="Suggest an edit"
+                      onClick={() => setSubmissionTarget(vendor)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Suggest an edit to {vendor.name}</span>
+                    </Button>
+                  </TableCell>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        {sortedVendors.length === 0 && (
-          <div className="text-center mt-8">
-            <p className="text-xl font-semibold">No vendors found matching your search criteria.</p>
-          </div>
-        )}
-        <Footer />
+              )
+            })}
+            {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
+          </TableBody>
+        </Table>
       </div>
+      </TooltipProvider>
+      {tablePage.total === 0 && (
+        <div className="text-center mt-8">
+          <p className="text-xl font-semibold">No vendors found matching your search criteria.</p>
+        </div>
+      )}
+      <TablePagination
+        page={tablePage.page}
+        pageSize={pageSize}
+        totalPages={tablePage.totalPages}
+        total={tablePage.total}
+        catalogueSize={tablePage.catalogueSize}
+        getPageHref={getPageHref}
+        onPageChange={handlePageChange}
+        onPageSizeChange={setPageSize}
+      />
+      {submissionTarget !== undefined && (
+        <VendorSubmissionDialog
+          key={submissionTarget?.slug ?? 'new'}
+          vendor={submissionTarget ?? undefined}
+          open
+          onOpenChange={(open) => !open && setSubmissionTarget(undefined)}
+        />
+      )}
+      <VendorComparison
+        columns={columns}
+        vendors={comparedVendors}
+        open={comparing}
+        onOpenChange={setComparing}
+        onRemove={toggleCompare}
+        onClear={() => {
+          setCompare([])
+          setComparing(false)
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
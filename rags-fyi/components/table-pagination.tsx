@@ -0,0 +1,101 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ALL_ROWS, PAGE_SIZES } from "@/lib/table-state"
+
+type TablePaginationProps = {
+  page: number
+  pageSize: number
+  totalPages: number
+  /** How many vendors match the search and filters, and how many the catalogue holds. */
+  total: number
+  catalogueSize: number
+  /** Link to `page`, followed when JavaScript is unavailable. */
+  getPageHref: (page: number) => string
+  onPageChange: (page: number) => void
+  onPageSizeChange: (pageSize: number) => void
+}
+
+type PageLinkProps = {
+  target: number
+  disabled: boolean
+  getPageHref: (page: number) => string
+  onPageChange: (page: number) => void
+  children: React.ReactNode
+}
+
+/** A previous/next button, rendered as a link so pages can be browsed without JavaScript. */
+function PageLink({ target, disabled, getPageHref, onPageChange, children }: PageLinkProps) {
+  if (disabled) {
+    return (
+      <Button variant="outline" className="h-8 w-8 p-0" disabled>
+        {children}
+      </Button>
+    )
+  }
+  return (
+    <Button variant="outline" className="h-8 w-8 p-0" asChild>
+      <a
+        href={getPageHref(target)}
+        onClick={(e) => {
+          e.preventDefault()
+          onPageChange(target)
+        }}
+      >
+        {children}
+      </a>
+    </Button>
+  )
+}
+
+/** Result count, page size picker and previous/next links below the vendor table. */
+export function TablePagination({
+  page,
+  pageSize,
+  totalPages,
+  total,
+  catalogueSize,
+  getPageHref,
+  onPageChange,
+  onPageSizeChange
+}: TablePaginationProps) {
+  const first = pageSize === ALL_ROWS ? 1 : (page - 1) * pageSize + 1
+  const last = pageSize === ALL_ROWS ? total : Math.min(page * pageSize, total)
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center justify-between gap-4 text-sm">
+      {/* Announced by screen readers whenever searching, filtering or paging changes the count. */}
+      <p className="text-muted-foreground" role="status">
+        {total === 0 ? 'No vendors' : `Showing ${first}–${last} of ${total} ${total === 1 ? 'vendor' : 'vendors'}`}
+        {total !== catalogueSize && ` (${catalogueSize} in the catalogue)`}
+      </p>
+      <div className="flex items-center gap-2">
+        <span className="text-muted-foreground">Rows per page</span>
+        <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+          <SelectTrigger className="h-8 w-[80px]" aria-label="Rows per page">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZES.map(size => (
+              <SelectItem key={size} value={String(size)}>
+                {size}
+              </SelectItem>
+            ))}
+            <SelectItem value={String(ALL_ROWS)}>All</SelectItem>
+          </SelectContent>
+        </Select>
+        <PageLink target={page - 1} disabled={page <= 1} getPageHref={getPageHref} onPageChange={onPageChange}>
+          <ChevronLeft className="h-4 w-4" />
+          <span className="sr-only">Previous page</span>
+        </PageLink>
+        <span className="tabular-nums">
+          Page {page} of {totalPages}
+        </span>
+        <PageLink target={page + 1} disabled={page >= totalPages} getPageHref={getPageHref} onPageChange={onPageChange}>
+          <ChevronRight className="h-4 w-4" />
+          <span className="sr-only">Next page</span>
+        </PageLink>
+      </div>
+    </div>
+  )
+}
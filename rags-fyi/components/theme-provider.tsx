@@ -0,0 +1,12 @@
+'use client'
+
+import { ThemeProvider as NextThemesProvider, type ThemeProviderProps } from 'next-themes'
+
+/**
+ * Applies the visitor's theme as the `dark` class on `<html>` and stores their choice in
+ * localStorage. `next-themes` sets the class from an inline script before the page paints, so a
+ * dark-mode visitor never sees the light theme flash on load.
+ */
+export function ThemeProvider(props: ThemeProviderProps) {
+  return <NextThemesProvider {...props} />
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { Check, Monitor, Moon, Sun } from 'lucide-react'
+import { useTheme } from 'next-themes'
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+const THEMES = [
+  { value: 'light', label: 'Light', icon: Sun },
+  { value: 'dark', label: 'Dark', icon: Moon },
+  { value: 'system', label: 'System', icon: Monitor }
+]
+
+/**
+ * Picks the light, dark or system theme. The trigger's icon follows the `dark` class rather than
+ * `useTheme`, which is unknown until hydration, so the server-rendered button already matches.
+ */
+export function ThemeToggle() {
+  const { theme, setTheme } = useTheme()
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8 hover:bg-brand-foreground/10 hover:text-inherit">
+          <Sun className="h-4 w-4 dark:hidden" />
+          <Moon className="hidden h-4 w-4 dark:block" />
+          <span className="sr-only">Theme</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-36 p-1">
+        {THEMES.map(({ value, label, icon: Icon }) => (
+          <Button
+            key={value}
+            variant="ghost"
+            size="sm"
+            className="w-full justify-start"
+            aria-pressed={theme === value}
+            onClick={() => setTheme(value)}
+          >
+            <Icon className="mr-2 h-4 w-4" />
+            {label}
+            {theme === value && <Check className="ml-auto h-4 w-4" />}
+          </Button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CellValue } from "@/components/cell-value"
+import { cn } from "@/lib/utils"
+import type { Column, VendorData, VendorValue } from "@/lib/vendor-schema"
+
+type VendorComparisonProps = {
+  columns: Column[]
+  /** The selected vendors, in selection order. */
+  vendors: VendorData[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRemove: (slug: string) => void
+  onClear: () => void
+}
+
+function sameValue(a: VendorValue | undefined, b: VendorValue | undefined): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Transposed view of the selected vendors: one row per attribute, one column per vendor.
+ * "Highlight differences" dims the attributes on which every selected vendor agrees.
+ */
+export function VendorComparison({ columns, vendors, open, onOpenChange, onRemove, onClear }: VendorComparisonProps) {
+  const [highlightDifferences, setHighlightDifferences] = useState(false)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] max-w-5xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare vendors</DialogTitle>
+          <DialogDescription>
+            {vendors.length < 2
+              ? 'Select at least two vendors in the table to compare them.'
+              : `Comparing ${vendors.map(vendor => vendor.name).join(', ')}.`}
+          </DialogDescription>
+        </DialogHeader>
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={highlightDifferences}
+            onCheckedChange={(checked) => setHighlightDifferences(checked === true)}
+          />
+          Highlight differences
+        </label>
+        <div className="overflow-x-auto rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[180px] bg-muted font-bold">Attribute</TableHead>
+                {vendors.map(vendor => (
+                  <TableHead key={vendor.slug} className="bg-muted font-bold">
+                    <div className="flex items-center justify-between gap-2">
+                      {vendor.name}
+                      <Button variant="ghost" className="h-6 w-6 p-0" onClick={() => onRemove(vendor.slug)}>
+                        <X className="h-3 w-3" />
+                        <span className="sr-only">Remove {vendor.name} from comparison</span>
+                      </Button>
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {columns.filter(column => column.key !== 'name').map(column => {
+                const identical = vendors.every(vendor => sameValue(vendor[column.key], vendors[0]?.[column.key]))
+                return (
+                  <TableRow
+                    key={column.key}
+                    className={cn(highlightDifferences && identical && "opacity-40")}
+                  >
+                    <TableCell className="font-medium">{column.label}</TableCell>
+                    {vendors.map(vendor => (
+                      <TableCell key={vendor.slug}>
+                        <CellValue column={column} value={vendor[column.key]} />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClear}>
+            Clear selection
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
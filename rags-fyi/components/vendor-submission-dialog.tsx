@@ -0,0 +1,293 @@
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CellValue } from "@/components/cell-value"
+import { diffVendors } from "@/lib/vendor-diff"
+import { columns, validateVendor, VendorValidationError, type Column, type VendorData } from "@/lib/vendor-schema"
+
+/** Select value standing for "not set" on optional boolean and enum fields. */
+const UNSET = '__unset__'
+
+type FormValues = Record<string, string>
+
+type Step = 'form' | 'review' | 'done'
+
+function toFormValues(vendor: VendorData | undefined): FormValues {
+  const values: FormValues = {}
+  for (const column of columns) {
+    const value = vendor?.[column.key]
+    if (value === undefined) continue
+    if (column.type === 'boolean') values[column.key] = value ? 'yes' : 'no'
+    else if (Array.isArray(value)) values[column.key] = value.join(', ')
+    else values[column.key] = String(value)
+  }
+  return values
+}
+
+/** Converts the form's strings into the JSON shape of a vendor file, leaving blank fields out. */
+function fromFormValues(values: FormValues): Record<string, unknown> {
+  const raw: Record<string, unknown> = {}
+  for (const column of columns) {
+    const value = (values[column.key] ?? '').trim()
+    if (value === '' || value === UNSET) continue
+    switch (column.type) {
+      case 'boolean':
+        raw[column.key] = value === 'yes'
+        break
+      case 'number':
+      case 'currency':
+        raw[column.key] = Number(value)
+        break
+      case 'tags':
+        raw[column.key] = value.split(',').map(tag => tag.trim()).filter(tag => tag !== '')
+        break
+      default:
+        raw[column.key] = value
+    }
+  }
+  return raw
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+type VendorSubmissionDialogProps = {
+  /** The vendor being corrected, or `undefined` to submit a new vendor. */
+  vendor: VendorData | undefined
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Form for suggesting a correction to a vendor or submitting a new one. The input is validated
+ * against the vendor schema, previewed as a diff against the current data, and then queued via
+ * `POST /api/submissions` for a maintainer to review.
+ */
+export function VendorSubmissionDialog({ vendor, open, onOpenChange }: VendorSubmissionDialogProps) {
+  const [values, setValues] = useState<FormValues>(() => toFormValues(vendor))
+  const [slug, setSlug] = useState(vendor?.slug ?? '')
+  const [note, setNote] = useState('')
+  const [contact, setContact] = useState('')
+  const [step, setStep] = useState<Step>('form')
+  const [error, setError] = useState<{ field: string, message: string } | null>(null)
+  const [proposed, setProposed] = useState<VendorData | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const isNew = vendor === undefined
+  const effectiveSlug = isNew ? (slug || slugify(values.name ?? '')) : vendor.slug
+
+  const setValue = (key: string, value: string) => setValues(prev => ({ ...prev, [key]: value }))
+
+  const handleReview = () => {
+    try {
+      const validated = validateVendor('submission', effectiveSlug, fromFormValues(values))
+      const changes = diffVendors(vendor, validated)
+      if (changes.length === 0) {
+        setError({ field: '', message: 'Nothing has changed yet.' })
+        return
+      }
+      setProposed(validated)
+      setError(null)
+      setStep('review')
+    } catch (e) {
+      if (!(e instanceof VendorValidationError)) throw e
+      const column = columns.find(col => col.key === e.field)
+      setError({ field: e.field, message: `${column?.label ?? e.field} ${e.reason}` })
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!proposed) return
+    setSubmitting(true)
+    try {
+      const { slug: proposedSlug, ...attributes } = proposed
+      const response = await fetch('/api/submissions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind: isNew ? 'new' : 'edit', slug: proposedSlug, vendor: attributes, note, contact })
+      })
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        setError({ field: '', message: body.error ?? `Submission failed (${response.status}).` })
+        return
+      }
+      setStep('done')
+    } catch {
+      setError({ field: '', message: 'Submission failed. Please check your connection and try again.' })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? 'Submit a vendor' : `Suggest an edit to ${vendor.name}`}</DialogTitle>
+          <DialogDescription>
+            {step === 'done'
+              ? 'Thanks! Your submission is in the moderation queue and will be reviewed by a maintainer.'
+              : 'Submissions are checked against the vendor schema and reviewed by a maintainer before they are published.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'form' && (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleReview()
+            }}
+          >
+            {columns.map(column => (
+              <FieldInput
+                key={column.key}
+                column={column}
+                value={values[column.key] ?? ''}
+                invalid={error?.field === column.key}
+                onChange={(value) => setValue(column.key, value)}
+              />
+            ))}
+            {isNew && (
+              <label className="block space-y-1 text-sm">
+                <span className="font-medium">Slug</span>
+                <Input
+                  value={slug}
+                  placeholder={slugify(values.name ?? '') || 'my-vendor'}
+                  aria-invalid={error?.field === 'slug'}
+                  onChange={(e) => setSlug(e.target.value)}
+                />
+              </label>
+            )}
+            <label className="block space-y-1 text-sm">
+              <span className="font-medium">Source or note for the reviewer</span>
+              <Input value={note} placeholder="e.g. link to the vendor's pricing page" onChange={(e) => setNote(e.target.value)} />
+            </label>
+            <label className="block space-y-1 text-sm">
+              <span className="font-medium">Your email (optional)</span>
+              <Input type="email" value={contact} onChange={(e) => setContact(e.target.value)} />
+            </label>
+            {error && <p className="text-sm text-destructive">{error.message}</p>}
+            <DialogFooter>
+              <Button type="submit">Review changes</Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        {step === 'review' && proposed && (
+          <div className="space-y-4">
+            <div className="overflow-x-auto rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="bg-muted font-bold">Attribute</TableHead>
+                    {!isNew && <TableHead className="bg-muted font-bold">Current</TableHead>}
+                    <TableHead className="bg-muted font-bold">Proposed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diffVendors(vendor, proposed).map(change => (
+                    <TableRow key={change.column.key}>
+                      <TableCell className="font-medium">{change.column.label}</TableCell>
+                      {!isNew && (
+                        <TableCell className="text-muted-foreground line-through">
+                          <CellValue column={change.column} value={change.before} />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <CellValue column={change.column} value={change.after} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {error && <p className="text-sm text-destructive">{error.message}</p>}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStep('form')}>
+                Back
+              </Button>
+              <Button onClick={handleSubmit} disabled={submitting}>
+                {submitting ? 'Submitting...' : 'Submit for review'}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <DialogFooter>
+            <Button onClick={() => onOpenChange(false)}>Close</Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+type FieldInputProps = {
+  column: Column
+  value: string
+  invalid: boolean
+  onChange: (value: string) => void
+}
+
+function FieldInput({ column, value, invalid, onChange }: FieldInputProps) {
+  const label = `${column.label}${column.required ? ' *' : ''}`
+
+  if (column.type === 'boolean' || column.type === 'enum') {
+    const options = column.type === 'boolean'
+      ? [{ value: 'yes', label: 'Yes' }, { value: 'no', label: 'No' }]
+      : (column.options ?? []).map(option => ({ value: option, label: option }))
+    return (
+      <div className="space-y-1 text-sm">
+        <span className="font-medium">{label}</span>
+        <Select value={value || UNSET} onValueChange={onChange}>
+          <SelectTrigger aria-label={column.label} aria-invalid={invalid}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNSET}>Not specified</SelectItem>
+            {options.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    )
+  }
+
+  const inputType = {
+    number: 'number',
+    currency: 'number',
+    url: 'url',
+    date: 'date'
+  }[column.type as string] ?? 'text'
+
+  return (
+    <label className="block space-y-1 text-sm">
+      <span className="font-medium">{label}</span>
+      <Input
+        type={inputType}
+        value={value}
+        aria-invalid={invalid}
+        placeholder={column.type !== 'tags'
+          ? undefined
+          : column.options ? `Comma-separated: ${column.options.join(', ')}` : 'Comma-separated, e.g. Hybrid search, Reranking'}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </label>
+  )
+}
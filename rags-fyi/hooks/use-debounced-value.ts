@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * `value`, updated once it has stopped changing for `delay` milliseconds, and a setter for changes
+ * that should apply without waiting.
+ */
+export function useDebouncedValue<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = useState(value)
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(timeout)
+  }, [value, delay])
+
+  return [debounced, setDebounced] as const
+}
@@ -0,0 +1,37 @@
+/**
+ * Helpers shared by the public read-only JSON API under `app/api/`.
+ *
+ * Every response carries `apiVersion` so consumers can detect breaking changes, and successful
+ * responses get a strong ETag over the body: a request whose `If-None-Match` matches is answered
+ * with `304 Not Modified` and no body.
+ */
+import { createHash } from 'crypto'
+import { columns, type Column } from "@/lib/vendor-schema"
+
+export const API_VERSION = 1
+
+const CACHE_CONTROL = 'public, max-age=60, s-maxage=3600, stale-while-revalidate=86400'
+
+/** The column schema as published by the API, so consumers can interpret each attribute's type. */
+export function getColumnSchema(): Column[] {
+  return columns
+}
+
+export function jsonResponse(request: Request, body: object, headers: Record<string, string> = {}): Response {
+  const json = JSON.stringify({ apiVersion: API_VERSION, ...body })
+  const etag = `"${createHash('sha1').update(json).digest('base64url')}"`
+  const responseHeaders = { 'Cache-Control': CACHE_CONTROL, 'ETag': etag, ...headers }
+
+  const ifNoneMatch = request.headers.get('if-none-match')
+  if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim() === etag || tag.trim() === '*')) {
+    return new Response(null, { status: 304, headers: responseHeaders })
+  }
+  return new Response(json, {
+    status: 200,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...responseHeaders }
+  })
+}
+
+export function errorResponse(status: number, message: string): Response {
+  return Response.json({ apiVersion: API_VERSION, error: message }, { status })
+}
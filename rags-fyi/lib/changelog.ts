@@ -0,0 +1,76 @@
+/**
+ * Attribute-level history of the vendor catalogue.
+ *
+ * `npm run changelog` walks the git history of `data/vendors/` and diffs each version of every
+ * vendor file against the previous one, writing the result to `data/changelog.json` (newest first).
+ * It is regenerated on main after each data change (see `.github/workflows/changelog.yml`) and
+ * builds use the committed file as is. Re-verifications (`lastVerified`) are not recorded as changes.
+ */
+import { promises as fs } from 'fs'
+import path from 'path'
+import { formatValue } from "@/lib/column-types"
+import { columns, type VendorValue } from "@/lib/vendor-schema"
+
+export const CHANGELOG_FILE = path.join(process.cwd(), 'data', 'changelog.json')
+
+/** Columns whose changes are not worth recording. */
+export const UNTRACKED_COLUMNS = ['lastVerified']
+
+export type AttributeChange = {
+  column: string
+  before?: VendorValue
+  after?: VendorValue
+}
+
+/** Everything that changed about one vendor in one dataset version. */
+export type ChangeSet = {
+  /** Stable across rebases and squash merges: the vendor slug and a hash of the change. */
+  id: string
+  /** ISO 8601 author date of the commit. */
+  date: string
+  vendor: string
+  name: string
+  type: 'added' | 'removed' | 'changed'
+  /** The changed attributes; empty for added and removed vendors. */
+  changes: AttributeChange[]
+}
+
+export async function getChangelog(): Promise<ChangeSet[]> {
+  try {
+    return JSON.parse(await fs.readFile(CHANGELOG_FILE, 'utf8')) as ChangeSet[]
+  } catch {
+    return []
+  }
+}
+
+export async function getVendorHistory(slug: string): Promise<ChangeSet[]> {
+  return (await getChangelog()).filter(changeSet => changeSet.vendor === slug)
+}
+
+/**
+ * One-line summary of a change set: the change itself when a single attribute changed (e.g.
+ * `Pricing: Freemium → Usage-based`), otherwise the changed attributes (`Pricing and Features updated`).
+ */
+export function describeChangeSet(changeSet: ChangeSet): string {
+  if (changeSet.type === 'added') return 'Added to the catalogue'
+  if (changeSet.type === 'removed') return 'Removed from the catalogue'
+  if (changeSet.changes.length === 1) return describeChange(changeSet.changes[0])
+
+  const labels = changeSet.changes.map(change => columns.find(col => col.key === change.column)?.label ?? change.column)
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]} updated`
+}
+
+const MAX_VALUE_LENGTH = 60
+
+export function describeChange(change: AttributeChange): string {
+  const column = columns.find(col => col.key === change.column)
+  if (!column) return `${change.column} changed`
+
+  const format = (value: VendorValue | undefined) => {
+    const text = formatValue(column, value)
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text
+  }
+  if (change.before === undefined) return `${column.label} set to ${format(change.after)}`
+  if (change.after === undefined) return `${column.label} removed (was ${format(change.before)})`
+  return `${column.label}: ${format(change.before)} → ${format(change.after)}`
+}
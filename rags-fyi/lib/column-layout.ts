@@ -0,0 +1,81 @@
+/**
+ * Column layout preferences for the vendor table, remembered in localStorage.
+ *
+ * The order of the visible columns is the order of `TableState.selectedColumns` (and of the `cols`
+ * URL parameter); widths are kept separately since they are a per-user preference rather than part
+ * of a shared view. Saved views store the table state as a query string, so loading one goes
+ * through `parseTableState` and drops whatever no longer exists in the schema.
+ */
+
+/** Width in pixels per column key; columns left out size to their content. */
+export type ColumnWidths = Record<string, number>
+
+export type ColumnLayout = {
+  columns: string[]
+  widths: ColumnWidths
+}
+
+export type SavedView = {
+  name: string
+  /** Visible columns, filters, sort and weights, as returned by `toQueryString`. */
+  query: string
+  widths: ColumnWidths
+}
+
+export const MIN_COLUMN_WIDTH = 80
+
+const LAYOUT_STORAGE_KEY = 'rags-fyi:layout'
+const VIEWS_STORAGE_KEY = 'rags-fyi:views'
+
+/** `order` with `column` moved to the position of `target`. */
+export function moveColumn(order: string[], column: string, target: string): string[] {
+  if (column === target || !order.includes(column) || !order.includes(target)) return order
+  const without = order.filter(key => key !== column)
+  const index = without.indexOf(target) + (order.indexOf(column) < order.indexOf(target) ? 1 : 0)
+  return [...without.slice(0, index), column, ...without.slice(index)]
+}
+
+function readStorage<T>(key: string, isValid: (value: unknown) => value is T): T | undefined {
+  try {
+    const value: unknown = JSON.parse(window.localStorage.getItem(key) ?? 'null')
+    return isValid(value) ? value : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function isColumnWidths(value: unknown): value is ColumnWidths {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(width => typeof width === 'number' && width >= MIN_COLUMN_WIDTH)
+}
+
+function isColumnLayout(value: unknown): value is ColumnLayout {
+  const layout = value as ColumnLayout | null
+  return typeof layout === 'object' && layout !== null && isStringArray(layout.columns) && isColumnWidths(layout.widths)
+}
+
+function isSavedViews(value: unknown): value is SavedView[] {
+  return Array.isArray(value) && value.every(view =>
+    typeof view?.name === 'string' && typeof view.query === 'string' && isColumnWidths(view.widths)
+  )
+}
+
+export function loadColumnLayout(): ColumnLayout | undefined {
+  return readStorage(LAYOUT_STORAGE_KEY, isColumnLayout)
+}
+
+export function storeColumnLayout(layout: ColumnLayout) {
+  window.localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout))
+}
+
+export function loadSavedViews(): SavedView[] {
+  return readStorage(VIEWS_STORAGE_KEY, isSavedViews) ?? []
+}
+
+export function storeSavedViews(views: SavedView[]) {
+  window.localStorage.setItem(VIEWS_STORAGE_KEY, JSON.stringify(views))
+}
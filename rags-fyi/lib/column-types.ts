@@ -0,0 +1,66 @@
+/**
+ * Per-type behaviour for vendor columns: how a value is turned into text and how two values
+ * compare when sorting (filter matching lives in `@/lib/filters`). The table, and anything else
+ * that reads vendor attributes, should go through these helpers instead of treating values as strings.
+ */
+import type { Column, VendorValue } from "@/lib/vendor-schema"
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeZone: 'UTC' })
+
+/** Case- and accent-insensitive text ordering, with digits compared numerically ("v2" < "v10"). */
+const collator = new Intl.Collator('en', { sensitivity: 'base', numeric: true })
+
+export function formatCurrency(amount: number, currency = 'USD'): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: Number.isInteger(amount) ? 0 : 2
+  }).format(amount)
+}
+
+export function formatDate(value: string): string {
+  return dateFormat.format(new Date(value))
+}
+
+/** Plain-text rendering of a value, used for text matching and anywhere markup is not available. */
+export function formatValue(column: Column, value: VendorValue | undefined): string {
+  if (value === undefined) return ''
+  switch (column.type) {
+    case 'boolean':
+      return value ? 'Yes' : 'No'
+    case 'currency':
+      return formatCurrency(value as number, column.currency)
+    case 'tags':
+      return (value as string[]).join(', ')
+    case 'date':
+      return formatDate(value as string)
+    default:
+      return String(value)
+  }
+}
+
+/** Whether a value counts as missing for sorting: absent, blank text or an empty list. */
+export function isEmptyValue(value: VendorValue | undefined): boolean {
+  if (value === undefined) return true
+  if (typeof value === 'string') return value.trim() === ''
+  return Array.isArray(value) && value.length === 0
+}
+
+/** Ascending comparison of two non-empty values of `column`. */
+export function compareValues(column: Column, a: VendorValue, b: VendorValue): number {
+  switch (column.type) {
+    case 'number':
+    case 'currency':
+      return (a as number) - (b as number)
+    case 'boolean':
+      return Number(a) - Number(b)
+    case 'enum': {
+      const options = column.options ?? []
+      return options.indexOf(a as string) - options.indexOf(b as string)
+    }
+    case 'date':
+      return Date.parse(a as string) - Date.parse(b as string)
+    default:
+      return collator.compare(formatValue(column, a), formatValue(column, b))
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Serializes a view of the vendor table as CSV, JSON or a Markdown table.
+ *
+ * Every format uses the column labels as headers/keys and keeps the rows and columns in the order
+ * given, so exporting `sortedVendors` with the visible columns reproduces what is on screen.
+ * CSV follows RFC 4180: CRLF line endings, and fields containing commas, quotes or line breaks are
+ * quoted with embedded quotes doubled.
+ */
+import { formatValue } from "@/lib/column-types"
+import type { Column, VendorData } from "@/lib/vendor-schema"
+
+export type ExportFormat = 'csv' | 'json' | 'markdown'
+
+export type ExportFile = {
+  content: string
+  mimeType: string
+  extension: string
+}
+
+function escapeCsvField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+}
+
+export function toCsv(vendors: VendorData[], columns: Column[]): string {
+  const rows = [
+    columns.map(column => column.label),
+    ...vendors.map(vendor => columns.map(column => formatValue(column, vendor[column.key])))
+  ]
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n'
+}
+
+/** JSON keeps values typed (booleans, numbers, lists) rather than formatted; missing values are `null`. */
+export function toJson(vendors: VendorData[], columns: Column[]): string {
+  const rows = vendors.map(vendor =>
+    Object.fromEntries(columns.map(column => [column.label, vendor[column.key] ?? null]))
+  )
+  return JSON.stringify(rows, null, 2) + '\n'
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
+
+export function toMarkdown(vendors: VendorData[], columns: Column[]): string {
+  const row = (cells: string[]) => `| ${cells.map(escapeMarkdownCell).join(' | ')} |`
+  return [
+    row(columns.map(column => column.label)),
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...vendors.map(vendor => row(columns.map(column => formatValue(column, vendor[column.key]))))
+  ].join('\n') + '\n'
+}
+
+export function exportVendors(format: ExportFormat, vendors: VendorData[], columns: Column[]): ExportFile {
+  switch (format) {
+    case 'csv':
+      return { content: toCsv(vendors, columns), mimeType: 'text/csv;charset=utf-8', extension: 'csv' }
+    case 'json':
+      return { content: toJson(vendors, columns), mimeType: 'application/json', extension: 'json' }
+    case 'markdown':
+      return { content: toMarkdown(vendors, columns), mimeType: 'text/markdown;charset=utf-8', extension: 'md' }
+  }
+}
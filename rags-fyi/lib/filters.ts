@@ -0,0 +1,296 @@
+/**
+ * Column filters for the vendor table.
+ *
+ * Each `ColumnType` supports its own set of operators (`filterOptionsByType`), and
+ * `matchesFilter` evaluates a single `Filter` against a vendor attribute. Range and
+ * multi-select operators take a list of values; every other operator takes one string.
+ *
+ * Filters are combined in a tree of `FilterGroup`s, each joining its conditions with AND or OR.
+ * The table keeps one root group: column popovers edit its top-level filters and the filter
+ * builder edits the whole tree, and both are evaluated by `applyFilters`.
+ */
+import RE2 from 're2'
+import { formatCurrency, formatDate, formatValue } from "@/lib/column-types"
+import type { Column, ColumnType, VendorData, VendorValue } from "@/lib/vendor-schema"
+
+export type FilterOption =
+  | 'equals'
+  | 'not-equals'
+  | 'contains'
+  | 'not-contains'
+  | 'matches-regex'
+  | 'greater-than'
+  | 'less-than'
+  | 'between'
+  | 'is-true'
+  | 'is-false'
+  | 'any-of'
+  | 'all-of'
+  | 'none-of'
+  | 'before'
+  | 'after'
+
+export type Filter = {
+  column: string
+  option: FilterOption
+  value: string | string[]
+}
+
+export type FilterCombinator = 'and' | 'or'
+
+export type FilterGroup = {
+  combinator: FilterCombinator
+  conditions: FilterNode[]
+}
+
+export type FilterNode = Filter | FilterGroup
+
+export const filterOptionLabels: Record<FilterOption, string> = {
+  'equals': 'equals',
+  'not-equals': 'does not equal',
+  'contains': 'contains',
+  'not-contains': 'does not contain',
+  'matches-regex': 'matches regex',
+  'greater-than': 'greater than',
+  'less-than': 'less than',
+  'between': 'between',
+  'is-true': 'is yes',
+  'is-false': 'is no',
+  'any-of': 'is any of',
+  'all-of': 'has all of',
+  'none-of': 'is none of',
+  'before': 'before',
+  'after': 'after'
+}
+
+const filterOptionsByType: Record<ColumnType, FilterOption[]> = {
+  text: ['contains', 'not-contains', 'equals', 'not-equals', 'matches-regex'],
+  url: ['contains', 'not-contains', 'matches-regex'],
+  boolean: ['is-true', 'is-false'],
+  enum: ['any-of', 'none-of'],
+  tags: ['any-of', 'all-of', 'none-of'],
+  number: ['equals', 'greater-than', 'less-than', 'between'],
+  currency: ['equals', 'greater-than', 'less-than', 'between'],
+  date: ['before', 'after']
+}
+
+/** Operators that still match a vendor with no value for the column. */
+const NEGATED_OPTIONS: FilterOption[] = ['not-equals', 'not-contains', 'none-of']
+
+export function getFilterOptions(column: Column): FilterOption[] {
+  return filterOptionsByType[column.type]
+}
+
+export function isMultiValueOption(option: FilterOption): boolean {
+  return option === 'any-of' || option === 'all-of' || option === 'none-of'
+}
+
+export function defaultFilterValue(option: FilterOption): string | string[] {
+  if (option === 'between') return ['', '']
+  return isMultiValueOption(option) ? [] : ''
+}
+
+/** A new filter on `column` using the first operator its type supports. */
+export function createFilter(column: Column): Filter {
+  const option = getFilterOptions(column)[0]
+  return { column: column.key, option, value: defaultFilterValue(option) }
+}
+
+/** The selectable values for an `enum` or `tags` column, in display order. */
+export function getColumnValueOptions(column: Column, vendors: VendorData[]): string[] {
+  if (column.options) return column.options
+  const tags = new Set<string>()
+  for (const vendor of vendors) {
+    const value = vendor[column.key]
+    if (Array.isArray(value)) value.forEach(tag => tags.add(tag))
+  }
+  return Array.from(tags).sort((a, b) => a.localeCompare(b))
+}
+
+/** Selectable values per column key, for the `enum` and `tags` columns. */
+export type ValueOptions = Record<string, string[]>
+
+/** `getColumnValueOptions` for every `enum` and `tags` column, so filters can be built without the vendors. */
+export function getValueOptions(columns: Column[], vendors: VendorData[]): ValueOptions {
+  return Object.fromEntries(
+    columns
+      .filter(column => column.type === 'enum' || column.type === 'tags')
+      .map(column => [column.key, getColumnValueOptions(column, vendors)])
+  )
+}
+
+/** Longest pattern a 'matches-regex' filter accepts. */
+export const MAX_REGEX_LENGTH = 200
+
+/** Lookarounds and backreferences, which RE2 does not support. */
+const UNSUPPORTED_REGEX_SYNTAX = /\(\?<?[=!]|\\[1-9]|\\k</
+
+/** Repetition counts, such as `{3}` or `{2,5}`; RE2 rejects counts over `MAX_REGEX_REPEAT`. */
+const REPEAT_PATTERN = /(?:^|[^\\])\{(\d+)(?:,(\d*))?\}/g
+const MAX_REGEX_REPEAT = 1000
+
+/**
+ * Whether `pattern` is a usable 'matches-regex' pattern. The same rules apply on the server and in
+ * the browser, so server-rendered and hydrated filters agree: the pattern must compile as a `RegExp`
+ * and avoid the syntax RE2 does not support, since that is what runs it (see `compileRegex`).
+ */
+export function isValidRegex(pattern: string): boolean {
+  if (pattern.length > MAX_REGEX_LENGTH || UNSUPPORTED_REGEX_SYNTAX.test(pattern)) return false
+  const counts = Array.from(pattern.matchAll(REPEAT_PATTERN)).flatMap(match => [match[1], match[2]])
+  if (counts.some(count => count && Number(count) > MAX_REGEX_REPEAT)) return false
+  try {
+    new RegExp(pattern, 'i')
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Compiles a 'matches-regex' pattern. Filters come from the URL and are applied on the server, so
+ * patterns run on RE2, which matches in linear time, instead of the backtracking `RegExp` engine that
+ * a pattern like `(\w+\s?)*!` ties up indefinitely. `re2` is a native module left out of the browser
+ * bundle (see `next.config.mjs`). `null` when RE2 still rejects a pattern `isValidRegex` accepted.
+ */
+function compileRegex(pattern: string): Pick<RegExp, 'test'> | null {
+  try {
+    return typeof window === 'undefined' ? new RE2(pattern, 'i') : new RegExp(pattern, 'i')
+  } catch {
+    return null
+  }
+}
+
+/** Whether the filter has enough input to be applied; incomplete filters match everything. */
+export function isFilterComplete(filter: Filter): boolean {
+  const { option, value } = filter
+  if (option === 'is-true' || option === 'is-false') return true
+  if (option === 'between') return Array.isArray(value) && value.some(bound => bound.trim() !== '')
+  if (isMultiValueOption(option)) return Array.isArray(value) && value.length > 0
+  if (typeof value !== 'string' || value.trim() === '') return false
+  return option !== 'matches-regex' || isValidRegex(value)
+}
+
+function toNumber(bound: string): number | undefined {
+  return bound.trim() === '' ? undefined : Number(bound)
+}
+
+export function matchesFilter(column: Column, value: VendorValue | undefined, filter: Filter): boolean {
+  if (!isFilterComplete(filter)) return true
+  if (value === undefined) return NEGATED_OPTIONS.includes(filter.option)
+
+  const query = typeof filter.value === 'string' ? filter.value : ''
+  const queries = Array.isArray(filter.value) ? filter.value : []
+  const text = formatValue(column, value).toLowerCase()
+  const values = Array.isArray(value) ? value : [String(value)]
+
+  switch (filter.option) {
+    case 'equals':
+      if (typeof value === 'number') return Number(query) === value
+      return values.some(item => item.toLowerCase() === query.toLowerCase())
+    case 'not-equals':
+      return !values.some(item => item.toLowerCase() === query.toLowerCase())
+    case 'contains':
+      return text.includes(query.toLowerCase())
+    case 'not-contains':
+      return !text.includes(query.toLowerCase())
+    case 'matches-regex':
+      // A pattern only RE2 rejects matches nothing, rather than silently showing every row.
+      return compileRegex(query)?.test(String(value)) ?? false
+    case 'greater-than':
+      return (value as number) > Number(query)
+    case 'less-than':
+      return (value as number) < Number(query)
+    case 'between': {
+      const [min, max] = queries.map(toNumber)
+      return (min === undefined || (value as number) >= min) && (max === undefined || (value as number) <= max)
+    }
+    case 'is-true':
+      return value === true
+    case 'is-false':
+      return value === false
+    case 'any-of':
+      return queries.some(query => values.includes(query))
+    case 'all-of':
+      return queries.every(query => values.includes(query))
+    case 'none-of':
+      return !queries.some(query => values.includes(query))
+    case 'before':
+      return Date.parse(value as string) < Date.parse(query)
+    case 'after':
+      return Date.parse(value as string) > Date.parse(query)
+    default:
+      return true
+  }
+}
+
+function describeBound(column: Column, bound: string): string {
+  if (bound.trim() === '') return '…'
+  if (column.type === 'currency') return formatCurrency(Number(bound), column.currency)
+  if (column.type === 'date') return formatDate(bound)
+  return bound
+}
+
+/** Human-readable summary of a filter, e.g. "Pricing is any of Free, Freemium". */
+export function describeFilter(column: Column, filter: Filter): string {
+  const prefix = `${column.label} ${filterOptionLabels[filter.option]}`
+  const { value } = filter
+  if (filter.option === 'is-true' || filter.option === 'is-false') return prefix
+  if (filter.option === 'between' && Array.isArray(value)) {
+    return `${prefix} ${describeBound(column, value[0] ?? '')} and ${describeBound(column, value[1] ?? '')}`
+  }
+  if (Array.isArray(value)) return `${prefix} ${value.join(', ')}`
+  return `${prefix} ${describeBound(column, value)}`
+}
+
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return 'conditions' in node
+}
+
+export function emptyFilterGroup(combinator: FilterCombinator = 'and'): FilterGroup {
+  return { combinator, conditions: [] }
+}
+
+/** Whether a node affects the result: a complete filter, or a group containing one. */
+export function isFilterNodeActive(node: FilterNode): boolean {
+  return isFilterGroup(node) ? node.conditions.some(isFilterNodeActive) : isFilterComplete(node)
+}
+
+/** Drops incomplete filters and groups left empty, so only conditions that matter are kept. */
+export function pruneFilterGroup(group: FilterGroup): FilterGroup {
+  const conditions = group.conditions
+    .map(node => isFilterGroup(node) ? pruneFilterGroup(node) : node)
+    .filter(isFilterNodeActive)
+  return { combinator: group.combinator, conditions }
+}
+
+/** Keys of every column referenced by an active filter anywhere in the tree. */
+export function getFilteredColumns(node: FilterNode): string[] {
+  if (!isFilterGroup(node)) return isFilterComplete(node) ? [node.column] : []
+  return Array.from(new Set(node.conditions.flatMap(getFilteredColumns)))
+}
+
+export function matchesFilterNode(vendor: VendorData, columns: Column[], node: FilterNode): boolean {
+  if (!isFilterGroup(node)) {
+    const column = columns.find(col => col.key === node.column)
+    return column ? matchesFilter(column, vendor[node.column], node) : true
+  }
+  const active = node.conditions.filter(isFilterNodeActive)
+  if (active.length === 0) return true
+  return node.combinator === 'and'
+    ? active.every(condition => matchesFilterNode(vendor, columns, condition))
+    : active.some(condition => matchesFilterNode(vendor, columns, condition))
+}
+
+/** Like `describeFilter`, but for any node; groups are parenthesised and joined by their combinator. */
+export function describeFilterNode(columns: Column[], node: FilterNode): string {
+  if (!isFilterGroup(node)) {
+    const column = columns.find(col => col.key === node.column)
+    return column ? describeFilter(column, node) : ''
+  }
+  const parts = node.conditions.filter(isFilterNodeActive).map(condition => describeFilterNode(columns, condition))
+  return parts.length === 1 ? parts[0] : `(${parts.join(` ${node.combinator} `)})`
+}
+
+export function applyFilters(vendors: VendorData[], columns: Column[], filters: FilterGroup): VendorData[] {
+  return vendors.filter(vendor => matchesFilterNode(vendor, columns, filters))
+}
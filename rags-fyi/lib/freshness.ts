@@ -0,0 +1,48 @@
+/**
+ * How fresh each vendor attribute is.
+ *
+ * An attribute counts as verified on its own `verifiedAt` date when its provenance has one, and
+ * otherwise on the vendor's `lastVerified` date. Values verified longer ago than `STALE_AFTER_DAYS`
+ * (180 by default, overridable with the `NEXT_PUBLIC_STALE_AFTER_DAYS` environment variable at
+ * build time) are stale. `npm run freshness` prints the stalest entries, and runs before every build.
+ */
+import { columns, type Column, type Provenance, type VendorData, type VendorProvenance } from "@/lib/vendor-schema"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const STALE_AFTER_DAYS = Number(process.env.NEXT_PUBLIC_STALE_AFTER_DAYS) || 180
+
+/** When an attribute of `vendor` with the given `provenance` was last verified, or `undefined` if it never was. */
+export function getVerifiedAt(vendor: VendorData, provenance: Provenance | undefined): string | undefined {
+  return provenance?.verifiedAt ?? (typeof vendor.lastVerified === 'string' ? vendor.lastVerified : undefined)
+}
+
+/** Whole days between the YYYY-MM-DD `date` and `now`. */
+export function ageInDays(date: string, now = new Date()): number {
+  return Math.floor((now.getTime() - Date.parse(date)) / DAY_MS)
+}
+
+export function isStale(date: string, now = new Date()): boolean {
+  return ageInDays(date, now) > STALE_AFTER_DAYS
+}
+
+export type FreshnessEntry = {
+  vendor: VendorData
+  column: Column
+  source: string | undefined
+  /** `undefined` when neither the attribute nor the vendor has a verification date. */
+  verifiedAt: string | undefined
+}
+
+/** Every attribute that has a value, stalest first; attributes that were never verified come first. */
+export function getFreshnessEntries(vendors: VendorData[], provenance: Record<string, VendorProvenance>): FreshnessEntry[] {
+  const entries: FreshnessEntry[] = []
+  for (const vendor of vendors) {
+    for (const column of columns) {
+      if (vendor[column.key] === undefined || column.key === 'lastVerified') continue
+      const attribute = provenance[vendor.slug]?.[column.key]
+      entries.push({ vendor, column, source: attribute?.source, verifiedAt: getVerifiedAt(vendor, attribute) })
+    }
+  }
+  return entries.sort((a, b) => (a.verifiedAt ?? '').localeCompare(b.verifiedAt ?? ''))
+}
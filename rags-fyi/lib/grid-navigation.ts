@@ -0,0 +1,65 @@
+/**
+ * Keyboard navigation for a table with `role="grid"`, following the WAI-ARIA grid pattern:
+ *
+ * | Key                 | Moves to                                  |
+ * | ------------------- | ----------------------------------------- |
+ * | Arrow keys          | the neighbouring cell                     |
+ * | Home / End          | the first / last cell of the row          |
+ * | Ctrl+Home / Ctrl+End| the first / last cell of the grid         |
+ * | PageUp / PageDown   | `PAGE_ROWS` rows up / down                |
+ *
+ * Row 0 is the header row. The grid keeps a single tab stop, the active cell, so Tab leaves the table.
+ */
+
+export type GridPosition = {
+  row: number
+  col: number
+}
+
+/** How many rows PageUp and PageDown move. */
+export const PAGE_ROWS = 10
+
+/** The cell `event` moves focus to from `position`, or `null` when the key is not a navigation key. */
+export function getGridTarget(
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey'>,
+  position: GridPosition,
+  rowCount: number,
+  colCount: number
+): GridPosition | null {
+  if (event.altKey) return null
+  const { row, col } = position
+  const toGridEdge = event.ctrlKey || event.metaKey
+  let target: GridPosition
+  switch (event.key) {
+    case 'ArrowUp':
+      target = { row: row - 1, col }
+      break
+    case 'ArrowDown':
+      target = { row: row + 1, col }
+      break
+    case 'ArrowLeft':
+      target = { row, col: col - 1 }
+      break
+    case 'ArrowRight':
+      target = { row, col: col + 1 }
+      break
+    case 'Home':
+      target = toGridEdge ? { row: 0, col: 0 } : { row, col: 0 }
+      break
+    case 'End':
+      target = toGridEdge ? { row: rowCount - 1, col: colCount - 1 } : { row, col: colCount - 1 }
+      break
+    case 'PageUp':
+      target = { row: row - PAGE_ROWS, col }
+      break
+    case 'PageDown':
+      target = { row: row + PAGE_ROWS, col }
+      break
+    default:
+      return null
+  }
+  return {
+    row: Math.min(Math.max(target.row, 0), rowCount - 1),
+    col: Math.min(Math.max(target.col, 0), colCount - 1)
+  }
+}
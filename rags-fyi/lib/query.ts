@@ -0,0 +1,40 @@
+/**
+ * The filter → search → sort pipeline behind the vendor table, shared by the table's pages (see
+ * `@/lib/table-page`) and the `/api/vendors` route so both return exactly the same rows for the same
+ * `TableState`.
+ */
+import { applyFilters } from "@/lib/filters"
+import { MATCH_SCORE_COLUMN, scoreVendors, withMatchScores } from "@/lib/scoring"
+import { searchVendors } from "@/lib/search"
+import { sortVendors } from "@/lib/sort"
+import type { TableState } from "@/lib/table-state"
+import { columns, type VendorData } from "@/lib/vendor-schema"
+
+/** Vendors matching the filters and search query, in relevance order while searching. */
+export function filterVendors(vendors: VendorData[], state: Pick<TableState, 'filters' | 'search'>): VendorData[] {
+  return searchVendors(applyFilters(vendors, columns, state.filters), columns, state.search).map(result => result.vendor)
+}
+
+/**
+ * Vendors matching the filters and search query, sorted by `state.sort`. While any weight is set,
+ * each vendor carries its match score under `MATCH_SCORE_COLUMN`, which can be sorted on.
+ */
+export function queryVendors(vendors: VendorData[], state: Pick<TableState, 'filters' | 'search' | 'sort' | 'weights'>): VendorData[] {
+  const scored = withMatchScores(filterVendors(vendors, state), scoreVendors(vendors, state.weights))
+  return sortVendors(scored, [...columns, MATCH_SCORE_COLUMN], state.sort)
+}
+
+export type Paginated<T> = {
+  items: T[]
+  /** The requested page, clamped to `totalPages`. */
+  page: number
+  totalPages: number
+}
+
+/** Page `page` (1-based) of `items`; a `pageSize` of 0 returns every item on a single page. */
+export function paginate<T>(items: T[], page: number, pageSize: number): Paginated<T> {
+  if (pageSize === 0) return { items, page: 1, totalPages: 1 }
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize))
+  const clamped = Math.min(page, totalPages)
+  return { items: items.slice((clamped - 1) * pageSize, clamped * pageSize), page: clamped, totalPages }
+}
@@ -0,0 +1,187 @@
+/**
+ * The "Which RAG is right for me?" questionnaire.
+ *
+ * Every answer translates into table settings: filters that exclude vendors outright, and
+ * "Rank for my needs" weights that order the remaining ones by match score. Requirements the
+ * catalogue has no data for yet are reported as notes instead of being silently dropped.
+ */
+import { describeFilter, emptyFilterGroup, matchesFilter, type Filter, type FilterGroup } from "@/lib/filters"
+import { hasWeights, MATCH_SCORE_COLUMN, scoreVendors, type Weights } from "@/lib/scoring"
+import type { SortKey } from "@/lib/sort"
+import { defaultTableState } from "@/lib/table-state"
+import { columns, type VendorData } from "@/lib/vendor-schema"
+
+export type QuestionAnswer = {
+  value: string
+  label: string
+  /** Conditions every recommended vendor must meet. */
+  filters?: Filter[]
+  /** Criteria to rank the remaining vendors by. */
+  weights?: Weights
+  /** Shown in the summary when the answer cannot be applied to the data. */
+  note?: string
+}
+
+export type Question = {
+  key: string
+  title: string
+  description: string
+  answers: QuestionAnswer[]
+}
+
+/** The chosen answer value per question key. */
+export type Answers = Record<string, string>
+
+const VOLUME_NOTE = 'The catalogue does not record index size limits or pricing per document yet, so data volume only ranks vendors and excludes none. Check limits with the vendors you shortlist.'
+
+export const questions: Question[] = [
+  {
+    key: 'deployment',
+    title: 'Where does it need to run?',
+    description: 'Some teams can send documents to a hosted service, others must keep everything on their own infrastructure.',
+    answers: [
+      { value: 'any', label: 'No preference' },
+      { value: 'saas', label: 'A fully managed service is fine', filters: [{ column: 'deployment', option: 'any-of', value: ['SaaS'] }] },
+      {
+        value: 'vpc',
+        label: 'In our own cloud account (VPC)',
+        filters: [{ column: 'deployment', option: 'any-of', value: ['VPC', 'Self-hosted'] }]
+      },
+      {
+        value: 'self-hosted',
+        label: 'On our own infrastructure',
+        filters: [{ column: 'deployment', option: 'any-of', value: ['Self-hosted'] }]
+      }
+    ]
+  },
+  {
+    key: 'budget',
+    title: 'What is your monthly budget?',
+    description: 'Based on the cheapest paid plan; vendors without a listed price are excluded by a budget limit.',
+    answers: [
+      { value: 'any', label: 'No fixed budget' },
+      { value: 'free', label: 'Free only', filters: [{ column: 'pricing', option: 'any-of', value: ['Free', 'Freemium'] }] },
+      {
+        value: 'under-100',
+        label: 'Up to $100',
+        filters: [{ column: 'startingPrice', option: 'between', value: ['0', '100'] }],
+        weights: { startingPrice: 3 }
+      },
+      {
+        value: 'under-1000',
+        label: 'Up to $1,000',
+        filters: [{ column: 'startingPrice', option: 'between', value: ['0', '1000'] }],
+        weights: { startingPrice: 2 }
+      }
+    ]
+  },
+  {
+    key: 'volume',
+    title: 'How much data will you index?',
+    description: 'Larger corpora favour established vendors with a broad feature set.',
+    answers: [
+      { value: 'small', label: 'A few thousand documents', weights: { startingPrice: 2 } },
+      {
+        value: 'medium',
+        label: 'Hundreds of thousands of documents',
+        weights: { features: 2, hybridSearch: 2 },
+        note: VOLUME_NOTE
+      },
+      {
+        value: 'large',
+        label: 'Millions of documents or more',
+        weights: { maturity: 3, hybridSearch: 3, reranking: 3, connectors: 2 },
+        note: VOLUME_NOTE
+      }
+    ]
+  },
+  {
+    key: 'compliance',
+    title: 'Any compliance requirements?',
+    description: 'Certifications your security team will ask for.',
+    answers: [
+      { value: 'none', label: 'None' },
+      { value: 'soc2', label: 'SOC 2', filters: [{ column: 'compliance', option: 'all-of', value: ['SOC 2'] }] },
+      { value: 'hipaa', label: 'HIPAA', filters: [{ column: 'compliance', option: 'all-of', value: ['HIPAA'] }] },
+      { value: 'gdpr', label: 'GDPR', filters: [{ column: 'compliance', option: 'all-of', value: ['GDPR'] }] }
+    ]
+  },
+  {
+    key: 'oss',
+    title: 'How important is open source?',
+    description: 'Open source lets you inspect, extend and self-host the stack.',
+    answers: [
+      { value: 'any', label: 'Doesn\'t matter' },
+      { value: 'prefer', label: 'Nice to have', weights: { oss: 5 } },
+      { value: 'require', label: 'Required', filters: [{ column: 'oss', option: 'is-true', value: '' }] }
+    ]
+  }
+]
+
+export type Recommendation = {
+  filters: FilterGroup
+  weights: Weights
+  sort: SortKey[]
+  notes: string[]
+}
+
+function getAnswer(question: Question, answers: Answers): QuestionAnswer | undefined {
+  return question.answers.find(answer => answer.value === answers[question.key])
+}
+
+/** The table settings for `answers`; unanswered questions are ignored. */
+export function getRecommendation(answers: Answers): Recommendation {
+  const conditions: Filter[] = []
+  const weights: Weights = {}
+  const notes: string[] = []
+
+  for (const question of questions) {
+    const answer = getAnswer(question, answers)
+    if (!answer) continue
+    for (const filter of answer.filters ?? []) {
+      // Two answers asking for the same thing (e.g. self-hosting and OSS required) filter once.
+      if (!conditions.some(existing => JSON.stringify(existing) === JSON.stringify(filter))) conditions.push(filter)
+    }
+    for (const [key, weight] of Object.entries(answer.weights ?? {})) {
+      weights[key] = Math.max(weights[key] ?? 0, weight)
+    }
+    if (answer.note) notes.push(answer.note)
+  }
+
+  return {
+    filters: { ...emptyFilterGroup(), conditions },
+    weights,
+    sort: hasWeights(weights) ? [{ column: MATCH_SCORE_COLUMN.key, direction: 'desc' }] : defaultTableState.sort,
+    notes
+  }
+}
+
+export type VendorVerdict = {
+  vendor: VendorData
+  matched: boolean
+  /** Each filter of the recommendation, described, and whether the vendor meets it. */
+  reasons: { text: string, met: boolean }[]
+  /** Match score, when the recommendation sets any weight. */
+  score: number | undefined
+}
+
+/** Why each vendor is or is not recommended: matches first by score, then exclusions. */
+export function explainRecommendation(vendors: VendorData[], recommendation: Recommendation): VendorVerdict[] {
+  const scores = scoreVendors(vendors, recommendation.weights)
+  const verdicts = vendors.map(vendor => {
+    const reasons = (recommendation.filters.conditions as Filter[]).map(filter => {
+      const column = columns.find(col => col.key === filter.column)
+      return column
+        ? { text: describeFilter(column, filter), met: matchesFilter(column, vendor[column.key], filter) }
+        : { text: filter.column, met: true }
+    })
+    return {
+      vendor,
+      matched: reasons.every(reason => reason.met),
+      reasons,
+      score: scores.get(vendor.slug)?.total
+    }
+  })
+
+  return verdicts.sort((a, b) => Number(b.matched) - Number(a.matched) || (b.score ?? 0) - (a.score ?? 0))
+}
@@ -0,0 +1,57 @@
+/**
+ * In-memory rate limiting for the write endpoints, counted per client IP in fixed windows.
+ *
+ * Counts live in the server process, so each instance of a multi-instance deployment limits on its
+ * own, and a restart resets them.
+ */
+
+export type RateLimiter = {
+  /** Records a request from `key` and returns whether it is within the limit. */
+  consume: (key: string) => boolean
+}
+
+type RateLimitWindow = {
+  start: number
+  count: number
+}
+
+/** How many clients are tracked before expired windows are swept. */
+const SWEEP_AFTER_CLIENTS = 10000
+
+/** Allows `limit` requests per client every `windowMs` milliseconds. */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, RateLimitWindow>()
+
+  return {
+    consume(key) {
+      const now = Date.now()
+      if (windows.size >= SWEEP_AFTER_CLIENTS) {
+        Array.from(windows.entries())
+          .filter(([, window]) => now - window.start >= windowMs)
+          .forEach(([client]) => windows.delete(client))
+      }
+
+      const window = windows.get(key)
+      if (!window || now - window.start >= windowMs) {
+        windows.set(key, { start: now, count: 1 })
+        return true
+      }
+      if (window.count >= limit) return false
+      window.count++
+      return true
+    }
+  }
+}
+
+/**
+ * The client's IP as seen by the reverse proxy in front of the app, or `'unknown'` when the request
+ * has none. `X-Real-IP` is set by the platform (Vercel, or nginx with `proxy_set_header`); otherwise
+ * the rightmost `X-Forwarded-For` entry is the one the proxy appended. Entries left of it come from
+ * the client and can be anything, so they are never used.
+ */
+export function getClientIp(request: Request): string {
+  const realIp = request.headers.get('x-real-ip')?.trim()
+  if (realIp) return realIp
+  const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(hop => hop !== '')
+  return hops[hops.length - 1] ?? 'unknown'
+}
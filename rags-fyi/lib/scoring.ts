@@ -0,0 +1,205 @@
+/**
+ * Weighted "Rank for my needs" scoring.
+ *
+ * Each `Criterion` rates a vendor from 0 (worst) to 1 (best). The user gives every criterion a
+ * weight from 0 (ignored) to `MAX_WEIGHT`, and a vendor's match score is the weighted average of its
+ * ratings as a percentage. Ratings that are relative (price, feature count, age) are computed
+ * against the whole catalogue, so a vendor's score does not change while filtering. A vendor
+ * without the data a criterion needs gets 0 for it.
+ *
+ * Weights are part of the table state and encoded in the URL as `w=oss:5,pricing:3`.
+ */
+import { ageInDays, STALE_AFTER_DAYS } from "@/lib/freshness"
+import { columns, type Column, type VendorData } from "@/lib/vendor-schema"
+
+export type Criterion = {
+  key: string
+  label: string
+  description: string
+  /** Rates `vendor` from 0 to 1, or `undefined` when the data needed is missing. */
+  rate: (vendor: VendorData, vendors: VendorData[]) => number | undefined
+}
+
+/** Weight per criterion key; criteria left out have weight 0. */
+export type Weights = Record<string, number>
+
+export const MAX_WEIGHT = 5
+
+/** The computed column added to the table, and accepted as a sort key, while any weight is set. */
+export const MATCH_SCORE_COLUMN: Column = { key: 'matchScore', label: 'Match score', type: 'number', category: 'Overview' }
+
+function numbers(vendors: VendorData[], key: string): number[] {
+  return vendors.map(vendor => vendor[key]).filter((value): value is number => typeof value === 'number')
+}
+
+/** How many tags `vendor` lists for `key`, relative to the vendor listing the most. */
+function coverage(vendor: VendorData, vendors: VendorData[], key: string): number | undefined {
+  const value = vendor[key]
+  if (!Array.isArray(value)) return undefined
+  const most = Math.max(...vendors.map(other => Array.isArray(other[key]) ? (other[key] as string[]).length : 0))
+  return most === 0 ? 0 : value.length / most
+}
+
+/** Where `value` falls between the smallest and largest value of `key` in the catalogue, from 0 to 1. */
+function rank(value: number, vendors: VendorData[], key: string, lowerIsBetter = false): number {
+  const values = numbers(vendors, key)
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  if (max === min) return 1
+  const position = (value - min) / (max - min)
+  return lowerIsBetter ? 1 - position : position
+}
+
+export const criteria: Criterion[] = [
+  {
+    key: 'oss',
+    label: 'Open source',
+    description: 'Prefer vendors whose product is open source.',
+    rate: vendor => typeof vendor.oss === 'boolean' ? Number(vendor.oss) : undefined
+  },
+  {
+    key: 'pricing',
+    label: 'Pricing model',
+    description: 'Prefer free and freemium plans over enterprise contracts.',
+    rate: vendor => {
+      const options = columns.find(col => col.key === 'pricing')?.options ?? []
+      const index = options.indexOf(vendor.pricing as string)
+      return index === -1 ? undefined : 1 - index / (options.length - 1)
+    }
+  },
+  {
+    key: 'startingPrice',
+    label: 'Low starting price',
+    description: 'Prefer the cheapest paid entry point.',
+    rate: (vendor, vendors) => typeof vendor.startingPrice === 'number'
+      ? rank(vendor.startingPrice, vendors, 'startingPrice', true)
+      : undefined
+  },
+  {
+    key: 'features',
+    label: 'Feature coverage',
+    description: 'Prefer vendors listing more features.',
+    rate: (vendor, vendors) => coverage(vendor, vendors, 'features')
+  },
+  {
+    key: 'selfHosting',
+    label: 'Self-hosting',
+    description: 'Prefer vendors that can run on your own infrastructure or in your VPC.',
+    rate: vendor => {
+      if (!Array.isArray(vendor.deployment)) return undefined
+      if (vendor.deployment.includes('Self-hosted')) return 1
+      return vendor.deployment.includes('VPC') ? 0.5 : 0
+    }
+  },
+  {
+    key: 'hybridSearch',
+    label: 'Hybrid search',
+    description: 'Prefer vendors combining keyword and vector retrieval.',
+    rate: vendor => typeof vendor.hybridSearch === 'boolean' ? Number(vendor.hybridSearch) : undefined
+  },
+  {
+    key: 'reranking',
+    label: 'Reranking',
+    description: 'Prefer vendors with built-in reranking.',
+    rate: vendor => typeof vendor.reranking === 'boolean' ? Number(vendor.reranking) : undefined
+  },
+  {
+    key: 'vectorStores',
+    label: 'Vector store choice',
+    description: 'Prefer vendors supporting more vector stores.',
+    rate: (vendor, vendors) => coverage(vendor, vendors, 'vectorStores')
+  },
+  {
+    key: 'connectors',
+    label: 'Connectors',
+    description: 'Prefer vendors with more built-in data source connectors.',
+    rate: (vendor, vendors) => coverage(vendor, vendors, 'connectors')
+  },
+  {
+    key: 'compliance',
+    label: 'Compliance',
+    description: 'Prefer vendors holding more compliance certifications.',
+    rate: (vendor, vendors) => coverage(vendor, vendors, 'compliance')
+  },
+  {
+    key: 'maturity',
+    label: 'Maturity',
+    description: 'Prefer vendors that have been around longer.',
+    rate: (vendor, vendors) => typeof vendor.founded === 'number' ? rank(vendor.founded, vendors, 'founded', true) : undefined
+  },
+  {
+    key: 'freshness',
+    label: 'Recently verified',
+    description: 'Prefer vendors whose data was checked recently.',
+    rate: vendor => typeof vendor.lastVerified === 'string'
+      ? Math.max(0, 1 - ageInDays(vendor.lastVerified) / (2 * STALE_AFTER_DAYS))
+      : undefined
+  }
+]
+
+export type ScoreBreakdown = {
+  /** The criterion without its `rate` function, so scores can be sent to the browser. */
+  criterion: Pick<Criterion, 'key' | 'label' | 'description'>
+  weight: number
+  /** The criterion's rating from 0 to 1, or `undefined` when the vendor lacks the data. */
+  rating: number | undefined
+  /** Points this criterion adds to the match score. */
+  points: number
+}
+
+export type VendorScore = {
+  /** Match score from 0 to 100. */
+  total: number
+  breakdown: ScoreBreakdown[]
+}
+
+export function hasWeights(weights: Weights): boolean {
+  return Object.values(weights).some(weight => weight > 0)
+}
+
+export function scoreVendor(vendor: VendorData, vendors: VendorData[], weights: Weights): VendorScore {
+  const weighted = criteria.filter(criterion => (weights[criterion.key] ?? 0) > 0)
+  const totalWeight = weighted.reduce((sum, criterion) => sum + weights[criterion.key], 0)
+
+  const breakdown = weighted.map(criterion => {
+    const weight = weights[criterion.key]
+    const rating = criterion.rate(vendor, vendors)
+    const { key, label, description } = criterion
+    return { criterion: { key, label, description }, weight, rating, points: totalWeight === 0 ? 0 : ((rating ?? 0) * weight / totalWeight) * 100 }
+  })
+  return { total: Math.round(breakdown.reduce((sum, item) => sum + item.points, 0)), breakdown }
+}
+
+/** Scores by vendor slug; empty when no weight is set. */
+export function scoreVendors(vendors: VendorData[], weights: Weights): Map<string, VendorScore> {
+  const scores = new Map<string, VendorScore>()
+  if (!hasWeights(weights)) return scores
+  for (const vendor of vendors) scores.set(vendor.slug, scoreVendor(vendor, vendors, weights))
+  return scores
+}
+
+/** `vendors` with their match score under `MATCH_SCORE_COLUMN`, so it can be sorted like any column. */
+export function withMatchScores(vendors: VendorData[], scores: Map<string, VendorScore>): VendorData[] {
+  if (scores.size === 0) return vendors
+  return vendors.map(vendor => ({ ...vendor, [MATCH_SCORE_COLUMN.key]: scores.get(vendor.slug)?.total }))
+}
+
+export function encodeWeights(weights: Weights): string {
+  return criteria
+    .filter(criterion => (weights[criterion.key] ?? 0) > 0)
+    .map(criterion => `${criterion.key}:${weights[criterion.key]}`)
+    .join(',')
+}
+
+/** Parses `w`, dropping unknown criteria and weights outside 1–`MAX_WEIGHT`. */
+export function decodeWeights(value: string): Weights {
+  const weights: Weights = {}
+  for (const item of value.split(',')) {
+    const [key, weight] = item.split(':')
+    const parsed = Number(weight)
+    if (criteria.some(criterion => criterion.key === key) && Number.isInteger(parsed) && parsed > 0 && parsed <= MAX_WEIGHT) {
+      weights[key] = parsed
+    }
+  }
+  return weights
+}
@@ -0,0 +1,142 @@
+/**
+ * Global full-text search over every vendor attribute.
+ *
+ * A query is split into terms and a vendor matches when every term is found in at least one
+ * attribute, either as a substring (so partial words match) or as a word within a small edit
+ * distance (so typos match). Matches are scored so results can be ranked by relevance, with
+ * hits in the vendor name and at the start of words counting for more.
+ */
+import { formatValue } from "@/lib/column-types"
+import type { Column, VendorData } from "@/lib/vendor-schema"
+
+export type MatchRange = [start: number, end: number]
+
+export type SearchResult = {
+  vendor: VendorData
+  score: number
+}
+
+const WORD_PATTERN = /[a-z0-9]+/gi
+
+const FIELD_WEIGHTS: Record<string, number> = { name: 3 }
+
+/** Longest query searched; the rest is ignored, since queries arrive from URLs and are matched on the server. */
+export const MAX_SEARCH_LENGTH = 200
+
+/** Most terms searched for. */
+export const MAX_SEARCH_TERMS = 10
+
+export function parseSearchQuery(query: string): string[] {
+  const terms = query.slice(0, MAX_SEARCH_LENGTH).toLowerCase().split(/\s+/).filter(term => term !== '')
+  return Array.from(new Set(terms)).slice(0, MAX_SEARCH_TERMS)
+}
+
+/** Typos tolerated for a term: none for short terms, where a single edit changes the word entirely. */
+function maxTypos(term: string): number {
+  if (term.length >= 8) return 2
+  return term.length >= 4 ? 1 : 0
+}
+
+/** Optimal string alignment distance: Levenshtein plus adjacent transpositions ("hybird" → "hybrid"). */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)])
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+type TermMatch = {
+  score: number
+  ranges: MatchRange[]
+}
+
+function matchTerm(text: string, term: string): TermMatch | null {
+  const lower = text.toLowerCase()
+  const ranges: MatchRange[] = []
+  let score = 0
+  for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+    ranges.push([index, index + term.length])
+    const atWordStart = index === 0 || !/[a-z0-9]/i.test(lower[index - 1])
+    score = Math.max(score, atWordStart ? 3 : 2)
+  }
+  if (ranges.length > 0) return { score, ranges }
+
+  const typos = maxTypos(term)
+  if (typos === 0) return null
+  for (const match of Array.from(lower.matchAll(WORD_PATTERN))) {
+    const word = match[0]
+    const start = match.index ?? 0
+    // Compare against the whole word and against its prefix, so "vectra" finds "Vectara"
+    // and "embeding" finds "embeddings".
+    // Words whose length differs by more than `typos` cannot be within it, so skip the table.
+    const prefix = word.slice(0, term.length + 1)
+    const withinTypos = (candidate: string) =>
+      Math.abs(candidate.length - term.length) <= typos && editDistance(term, candidate) <= typos
+    if (withinTypos(word) || withinTypos(prefix)) {
+      ranges.push([start, start + word.length])
+    }
+  }
+  return ranges.length > 0 ? { score: 1, ranges } : null
+}
+
+/** Ranges of `text` matched by any of the search terms, merged and in order, for highlighting. */
+export function getMatchRanges(text: string, terms: string[]): MatchRange[] {
+  const ranges = terms
+    .flatMap(term => matchTerm(text, term)?.ranges ?? [])
+    .sort((a, b) => a[0] - b[0])
+
+  const merged: MatchRange[] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([range[0], range[1]])
+    }
+  }
+  return merged
+}
+
+function vendorFieldTexts(vendor: VendorData, column: Column): string[] {
+  const value = vendor[column.key]
+  if (value === undefined) return []
+  // Booleans only make sense to search by their column name ("open source").
+  if (column.type === 'boolean') return value ? [column.label] : []
+  return Array.isArray(value) ? value : [formatValue(column, value)]
+}
+
+/**
+ * Returns the vendors matching every term of `query`, ranked by relevance (best first, ties in
+ * their original order). An empty query returns every vendor with a score of 0.
+ */
+export function searchVendors(vendors: VendorData[], columns: Column[], query: string): SearchResult[] {
+  const terms = parseSearchQuery(query)
+  if (terms.length === 0) return vendors.map(vendor => ({ vendor, score: 0 }))
+
+  const results: SearchResult[] = []
+  for (const vendor of vendors) {
+    let score = 0
+    const matchesEveryTerm = terms.every(term => {
+      let best = 0
+      for (const column of columns) {
+        for (const text of vendorFieldTexts(vendor, column)) {
+          const match = matchTerm(text, term)
+          if (match) best = Math.max(best, match.score * (FIELD_WEIGHTS[column.key] ?? 1))
+        }
+      }
+      score += best
+      return best > 0
+    })
+    if (matchesEveryTerm) results.push({ vendor, score })
+  }
+
+  return results.sort((a, b) => b.score - a.score)
+}
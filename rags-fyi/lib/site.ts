@@ -0,0 +1,11 @@
+/**
+ * Site-wide constants for metadata, the sitemap and structured data.
+ *
+ * Absolute URLs (sitemap entries, Open Graph images, JSON-LD) are built from `SITE_URL`, set
+ * `NEXT_PUBLIC_SITE_URL` to serve the site from another origin, e.g. a preview deployment.
+ */
+export const SITE_NAME = 'RAGs.FYI'
+
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || 'https://rags.fyi').replace(/\/$/, '')
+
+export const SITE_DESCRIPTION = 'Compare Retrieval-Augmented Generation (RAG) vendors side by side: pricing, deployment options, supported models, retrieval features and compliance.'
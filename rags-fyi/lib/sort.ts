@@ -0,0 +1,61 @@
+/**
+ * Multi-column sorting for the vendor table.
+ *
+ * A sort is an ordered list of `SortKey`s: rows are compared by the first key, ties are broken by
+ * the next one, and rows that tie on every key keep their incoming order (which is the search
+ * relevance order while a search is active). Empty values always sort last, whatever the direction.
+ */
+import { compareValues, isEmptyValue } from "@/lib/column-types"
+import type { Column, VendorData, VendorValue } from "@/lib/vendor-schema"
+
+export type SortDirection = 'asc' | 'desc'
+
+export type SortKey = {
+  column: string
+  direction: SortDirection
+}
+
+export function sortVendors(vendors: VendorData[], columns: Column[], sort: SortKey[]): VendorData[] {
+  const keys = sort
+    .map(key => ({ ...key, column: columns.find(col => col.key === key.column) }))
+    .filter((key): key is { column: Column, direction: SortDirection } => key.column !== undefined)
+  if (keys.length === 0) return vendors
+
+  return vendors
+    .map((vendor, index) => ({ vendor, index }))
+    .sort((a, b) => {
+      for (const { column, direction } of keys) {
+        const aValue = a.vendor[column.key]
+        const bValue = b.vendor[column.key]
+        const aEmpty = isEmptyValue(aValue)
+        const bEmpty = isEmptyValue(bValue)
+        if (aEmpty || bEmpty) {
+          if (aEmpty !== bEmpty) return aEmpty ? 1 : -1
+          continue
+        }
+        const result = compareValues(column, aValue as VendorValue, bValue as VendorValue)
+        if (result !== 0) return direction === 'asc' ? result : -result
+      }
+      return a.index - b.index
+    })
+    .map(({ vendor }) => vendor)
+}
+
+/**
+ * The sort after clicking a column header. A plain click sorts by that column alone, toggling its
+ * direction if it was already the primary key. With `additive` (shift-click) the column is appended
+ * as the next tiebreaker, or cycles ascending → descending → removed if it is already a key.
+ */
+export function toggleSort(sort: SortKey[], column: string, additive: boolean): SortKey[] {
+  const existing = sort.find(key => key.column === column)
+
+  if (!additive) {
+    const direction = sort[0]?.column === column && sort[0].direction === 'asc' ? 'desc' : 'asc'
+    return [{ column, direction }]
+  }
+  if (!existing) return [...sort, { column, direction: 'asc' }]
+  if (existing.direction === 'asc') {
+    return sort.map(key => key.column === column ? { column, direction: 'desc' } : key)
+  }
+  return sort.filter(key => key.column !== column)
+}
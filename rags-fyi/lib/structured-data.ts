@@ -0,0 +1,47 @@
+/**
+ * schema.org structured data, embedded in pages as JSON-LD so search engines can show vendors as
+ * software products.
+ */
+import { SITE_URL } from "@/lib/site"
+import { columns, type VendorData } from "@/lib/vendor-schema"
+
+function text(vendor: VendorData, key: string): string | undefined {
+  const value = vendor[key]
+  return typeof value === 'string' ? value : undefined
+}
+
+/** A `SoftwareApplication` describing `vendor`, for its page at `/vendors/[slug]`. */
+export function getVendorJsonLd(vendor: VendorData): Record<string, unknown> {
+  const pageUrl = `${SITE_URL}/vendors/${vendor.slug}`
+  const deployment = Array.isArray(vendor.deployment) ? vendor.deployment : []
+  const currency = columns.find(column => column.key === 'startingPrice')?.currency ?? 'USD'
+  const docsUrl = text(vendor, 'docsUrl')
+
+  // Keys left undefined are dropped by `JSON.stringify`.
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'SoftwareApplication',
+    '@id': pageUrl,
+    mainEntityOfPage: pageUrl,
+    name: vendor.name,
+    description: text(vendor, 'description') ?? text(vendor, 'usp'),
+    url: text(vendor, 'website') ?? pageUrl,
+    applicationCategory: 'DeveloperApplication',
+    applicationSubCategory: 'Retrieval-Augmented Generation',
+    operatingSystem: deployment.includes('SaaS') ? 'Web' : undefined,
+    featureList: Array.isArray(vendor.features) ? vendor.features : undefined,
+    license: text(vendor, 'license'),
+    isAccessibleForFree: vendor.pricing === 'Free' || vendor.pricing === 'Freemium',
+    offers: typeof vendor.startingPrice === 'number'
+      ? { '@type': 'Offer', price: vendor.startingPrice, priceCurrency: currency, url: text(vendor, 'pricingUrl') }
+      : undefined,
+    softwareHelp: docsUrl ? { '@type': 'CreativeWork', url: docsUrl } : undefined,
+    sameAs: text(vendor, 'githubUrl'),
+    dateModified: text(vendor, 'lastVerified')
+  }
+}
+
+/** `data` as the body of a `<script type="application/ld+json">`, with `<` escaped so it cannot close the tag. */
+export function serializeJsonLd(data: Record<string, unknown>): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c')
+}
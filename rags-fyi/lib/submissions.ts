@@ -0,0 +1,184 @@
+/**
+ * File-backed moderation queue for vendor submissions and corrections.
+ *
+ * Each submission is stored as `data/submissions/<id>.json` (ignored by git) and stays `pending`
+ * until a maintainer approves or rejects it at `/admin/submissions`. Approving writes the proposed
+ * vendor to `data/vendors/<slug>.json`, ready to be committed like any other data change.
+ * The admin route is only available when the `ADMIN_TOKEN` environment variable is set. Signing in
+ * with the token sets an HTTP-only session cookie, so the token never appears in a URL or page;
+ * sessions expire after `ADMIN_SESSION_MAX_AGE` and signing out ends all of them.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { diffVendors } from "@/lib/vendor-diff"
+import { columns, validateVendor, type VendorData, type VendorProvenance } from "@/lib/vendor-schema"
+import { clearVendorCache, findNameConflict, getVendorEntries, VENDORS_DIR } from "@/lib/vendors"
+
+export const SUBMISSIONS_DIR = path.join(process.cwd(), 'data', 'submissions')
+
+export type SubmissionKind = 'new' | 'edit'
+
+export type SubmissionStatus = 'pending' | 'approved' | 'rejected'
+
+export type Submission = {
+  id: string
+  kind: SubmissionKind
+  vendor: VendorData
+  note: string
+  contact: string
+  status: SubmissionStatus
+  submittedAt: string
+  reviewedAt?: string
+}
+
+export type NewSubmission = Pick<Submission, 'kind' | 'vendor' | 'note' | 'contact'>
+
+export const ADMIN_SESSION_COOKIE = 'admin_session'
+
+/** How long an admin session lasts, in seconds. */
+export const ADMIN_SESSION_MAX_AGE = 8 * 60 * 60
+
+/** Holds the time of the last sign-out; sessions issued before it are no longer accepted. */
+const SIGNED_OUT_FILE = path.join(SUBMISSIONS_DIR, '.signed-out')
+
+function safeEqual(actual: unknown, expected: string | undefined): boolean {
+  if (!expected || typeof actual !== 'string') return false
+  const a = Buffer.from(actual)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/** Whether `token` matches `ADMIN_TOKEN`; always false when no token is configured. */
+export function isAdminToken(token: unknown): boolean {
+  return safeEqual(token, process.env.ADMIN_TOKEN)
+}
+
+function signSession(issuedAt: number, token: string): string {
+  return createHmac('sha256', token).update(`${ADMIN_SESSION_COOKIE}:${issuedAt}`).digest('base64url')
+}
+
+/**
+ * A new admin session cookie value, `<issued at, in ms>.<signature>`: the signature is an HMAC keyed by
+ * `ADMIN_TOKEN` rather than the token itself, so changing the token also ends every session.
+ * `undefined` when no token is configured.
+ */
+export function createAdminSession(): string | undefined {
+  const token = process.env.ADMIN_TOKEN
+  if (!token) return undefined
+  const issuedAt = Date.now()
+  return `${issuedAt}.${signSession(issuedAt, token)}`
+}
+
+async function getSignedOutAt(): Promise<number> {
+  try {
+    return Number(await fs.readFile(SIGNED_OUT_FILE, 'utf8')) || 0
+  } catch {
+    return 0
+  }
+}
+
+/** Whether `session` is an admin session cookie value that is genuine, unexpired and not signed out. */
+export async function isAdminSession(session: unknown): Promise<boolean> {
+  const token = process.env.ADMIN_TOKEN
+  if (!token || typeof session !== 'string') return false
+  const [issued, signature] = session.split('.')
+  const issuedAt = Number(issued)
+  if (!Number.isSafeInteger(issuedAt) || !safeEqual(signature, signSession(issuedAt, token))) return false
+
+  const age = Date.now() - issuedAt
+  if (age < 0 || age > ADMIN_SESSION_MAX_AGE * 1000) return false
+  return issuedAt > await getSignedOutAt()
+}
+
+/** Ends every admin session issued so far, including copies of the cookie outside the browser. */
+export async function revokeAdminSessions(): Promise<void> {
+  await fs.mkdir(SUBMISSIONS_DIR, { recursive: true })
+  await fs.writeFile(SIGNED_OUT_FILE, String(Date.now()))
+}
+
+function submissionPath(id: string): string {
+  return path.join(SUBMISSIONS_DIR, `${id}.json`)
+}
+
+async function writeSubmission(submission: Submission): Promise<void> {
+  await fs.mkdir(SUBMISSIONS_DIR, { recursive: true })
+  await fs.writeFile(submissionPath(submission.id), JSON.stringify(submission, null, 2) + '\n')
+}
+
+export async function createSubmission(input: NewSubmission): Promise<Submission> {
+  const submission: Submission = {
+    ...input,
+    id: `${Date.now()}-${randomBytes(3).toString('hex')}`,
+    status: 'pending',
+    submittedAt: new Date().toISOString()
+  }
+  await writeSubmission(submission)
+  return submission
+}
+
+/** Every submission, newest first. */
+export async function listSubmissions(): Promise<Submission[]> {
+  let fileNames: string[]
+  try {
+    fileNames = (await fs.readdir(SUBMISSIONS_DIR)).filter(fileName => fileName.endsWith('.json'))
+  } catch {
+    return []
+  }
+  const submissions = await Promise.all(
+    fileNames.map(async fileName => JSON.parse(await fs.readFile(path.join(SUBMISSIONS_DIR, fileName), 'utf8')) as Submission)
+  )
+  return submissions.sort((a, b) => b.submittedAt.localeCompare(a.submittedAt))
+}
+
+export async function getSubmission(id: string): Promise<Submission | undefined> {
+  if (!/^[\w-]+$/.test(id)) return undefined
+  try {
+    return JSON.parse(await fs.readFile(submissionPath(id), 'utf8')) as Submission
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * The vendor file contents for `vendor`: its attributes in schema order, without the slug. Attributes
+ * with `provenance` are written as `{ value, source, verifiedAt }`.
+ */
+function toVendorFile(vendor: VendorData, provenance: VendorProvenance = {}): string {
+  const record = Object.fromEntries(
+    columns
+      .filter(column => vendor[column.key] !== undefined)
+      .map(column => {
+        const value = vendor[column.key]
+        return [column.key, provenance[column.key] ? { value, ...provenance[column.key] } : value]
+      })
+  )
+  return JSON.stringify(record, null, 2) + '\n'
+}
+
+export async function reviewSubmission(id: string, status: Exclude<SubmissionStatus, 'pending'>): Promise<Submission> {
+  const submission = await getSubmission(id)
+  if (!submission) throw new Error(`Submission ${id} not found`)
+  if (submission.status !== 'pending') throw new Error(`Submission ${id} was already ${submission.status}`)
+
+  if (status === 'approved') {
+    const { slug } = submission.vendor
+    // Re-validate in case the schema changed while the submission was queued.
+    const vendor = validateVendor(`data/submissions/${id}.json`, slug, JSON.parse(toVendorFile(submission.vendor)))
+    // Checked again here, since the name may have been taken after the submission was queued.
+    const conflict = await findNameConflict(vendor.name, slug)
+    if (conflict) throw new Error(`A vendor named "${conflict.name}" already exists (data/vendors/${conflict.slug}.json)`)
+    // Keep the provenance of attributes the submission leaves unchanged.
+    const current = (await getVendorEntries()).find(entry => entry.vendor.slug === slug)
+    const changed = diffVendors(current?.vendor, vendor).map(change => change.column.key)
+    const provenance = Object.fromEntries(
+      Object.entries(current?.provenance ?? {}).filter(([key]) => !changed.includes(key))
+    )
+    await fs.writeFile(path.join(VENDORS_DIR, `${slug}.json`), toVendorFile(vendor, provenance))
+    clearVendorCache()
+  }
+
+  const reviewed: Submission = { ...submission, status, reviewedAt: new Date().toISOString() }
+  await writeSubmission(reviewed)
+  return reviewed
+}
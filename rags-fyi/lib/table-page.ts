@@ -0,0 +1,66 @@
+/**
+ * One page of the vendor table, computed on the server.
+ *
+ * The home page renders the page for the `TableState` in its URL, and `RaGsFyiTable` fetches the
+ * next one through the `fetchTablePage` server action whenever the search, filters, sort, weights
+ * or page change, so the browser only receives the rows it shows.
+ */
+import { getValueOptions, type ValueOptions } from "@/lib/filters"
+import { paginate, queryVendors } from "@/lib/query"
+import { hasWeights, scoreVendor, type VendorScore } from "@/lib/scoring"
+import type { TableState } from "@/lib/table-state"
+import { columns, type VendorData, type VendorProvenance } from "@/lib/vendor-schema"
+import { getVendorEntries, getVendors } from "@/lib/vendors"
+
+export type TablePage = {
+  /** The vendors on this page, in display order. */
+  rows: VendorData[]
+  /** Match score of each row while any weight is set, keyed by slug. */
+  scores: Record<string, VendorScore>
+  /** Provenance of each row's attributes, keyed by slug. */
+  provenance: Record<string, VendorProvenance>
+  /** The vendors selected for comparison, in selection order, whichever page they are on; the table tracks later selections itself. */
+  compared: VendorData[]
+  /** The page shown: the requested one, clamped to `totalPages`. */
+  page: number
+  totalPages: number
+  /** How many vendors match the search and filters. */
+  total: number
+  /** How many vendors the catalogue holds. */
+  catalogueSize: number
+}
+
+export async function getTablePage(state: TableState): Promise<TablePage> {
+  const entries = await getVendorEntries()
+  const vendors = entries.map(entry => entry.vendor)
+  const results = queryVendors(vendors, state)
+  const { items: rows, page, totalPages } = paginate(results, state.page, state.pageSize)
+
+  return {
+    rows,
+    // Scored against every vendor, like `queryVendors`, so a score does not change while filtering.
+    scores: hasWeights(state.weights)
+      ? Object.fromEntries(rows.map(vendor => [vendor.slug, scoreVendor(vendor, vendors, state.weights)]))
+      : {},
+    provenance: Object.fromEntries(
+      entries.filter(entry => rows.some(row => row.slug === entry.vendor.slug)).map(entry => [entry.vendor.slug, entry.provenance])
+    ),
+    compared: state.compare
+      .map(slug => vendors.find(vendor => vendor.slug === slug))
+      .filter((vendor): vendor is VendorData => vendor !== undefined),
+    page,
+    totalPages,
+    total: results.length,
+    catalogueSize: vendors.length
+  }
+}
+
+/** Every vendor matching `state`, across all pages, in display order. */
+export async function getTableRows(state: TableState): Promise<VendorData[]> {
+  return queryVendors(await getVendors(), state)
+}
+
+/** The filter value options for the whole catalogue, so filters can be built without its rows. */
+export async function getCatalogueValueOptions(): Promise<ValueOptions> {
+  return getValueOptions(columns, await getVendors())
+}
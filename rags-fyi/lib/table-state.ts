@@ -0,0 +1,234 @@
+/**
+ * The shareable state of `RaGsFyiTable` and its encoding in URL query parameters.
+ *
+ * | Param     | Example                                        | Meaning                                   |
+ * | --------- | ---------------------------------------------- | ----------------------------------------- |
+ * | `q`       | `q=hybrid`                                     | global search query                       |
+ * | `sort`    | `sort=-pricing,name`                           | sort keys in priority order, `-` prefix   |
+ * |           |                                                | for descending, `relevance` to rank by    |
+ * |           |                                                | search relevance                          |
+ * | `cols`    | `cols=name,oss,pricing`                        | visible columns, in display order         |
+ * | `filters` | `filters={"and":[["oss","is-true"]]}`          | filter tree, see `encodeFilterNode`       |
+ * | `compare` | `compare=vectara,llamacloud`                   | vendors selected for comparison, at most  |
+ * |           |                                                | `MAX_COMPARED_VENDORS`                    |
+ * | `view`    | `view=compare`                                 | comparison view is open                   |
+ * | `w`       | `w=oss:5,pricing:3`                            | "Rank for my needs" weights, see          |
+ * |           |                                                | `@/lib/scoring`                           |
+ * | `page`    | `page=2`                                       | 1-based page of results                   |
+ * | `pageSize`| `pageSize=100`                                 | rows per page, one of `PAGE_SIZES`, or    |
+ * |           |                                                | `all` for a single page                   |
+ *
+ * Parameters equal to `defaultTableState` are omitted, so the plain page URL is the default view.
+ * Parsing never throws: unknown columns, operators and malformed values are dropped.
+ */
+import {
+  emptyFilterGroup,
+  getFilterOptions,
+  isFilterGroup,
+  isMultiValueOption,
+  MAX_REGEX_LENGTH,
+  type Filter,
+  type FilterGroup,
+  type FilterNode,
+  type FilterOption
+} from "@/lib/filters"
+import { decodeWeights, encodeWeights, MATCH_SCORE_COLUMN, type Weights } from "@/lib/scoring"
+import { MAX_SEARCH_LENGTH } from "@/lib/search"
+import type { SortKey } from "@/lib/sort"
+import { columns, defaultVisibleColumns, SLUG_PATTERN } from "@/lib/vendor-schema"
+
+export type TableState = {
+  search: string
+  /** Sort keys in priority order; empty ranks rows by search relevance. */
+  sort: SortKey[]
+  /** Visible column keys, in display order. */
+  selectedColumns: string[]
+  filters: FilterGroup
+  /** Slugs of the vendors selected for comparison, in selection order. */
+  compare: string[]
+  /** Whether the comparison view is open. */
+  comparing: boolean
+  weights: Weights
+  /** 1-based page of the sorted results. */
+  page: number
+  /** Rows per page; `ALL_ROWS` shows every result on one page. */
+  pageSize: number
+}
+
+export type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>
+
+export const RELEVANCE_SORT = 'relevance'
+
+/** The page sizes offered by the table, besides `ALL_ROWS`. */
+export const PAGE_SIZES = [25, 50, 100]
+
+/** `pageSize` value showing every result on one page, encoded as `pageSize=all`. */
+export const ALL_ROWS = 0
+
+/** The most vendors that can be compared side by side; a longer `compare` list is truncated. */
+export const MAX_COMPARED_VENDORS = 4
+
+export const defaultTableState: TableState = {
+  search: '',
+  sort: [{ column: 'name', direction: 'asc' }],
+  selectedColumns: defaultVisibleColumns,
+  filters: emptyFilterGroup(),
+  compare: [],
+  comparing: false,
+  weights: {},
+  page: 1,
+  pageSize: 50
+}
+
+/**
+ * Compact JSON form of a filter node: a group is `{ "and": [...] }` or `{ "or": [...] }`,
+ * a filter is `[column, option]` or `[column, option, value]`.
+ */
+type EncodedFilterNode = { and: EncodedFilterNode[] } | { or: EncodedFilterNode[] } | [string, string, (string | string[])?]
+
+function encodeFilterNode(node: FilterNode): EncodedFilterNode {
+  if (isFilterGroup(node)) {
+    const conditions = node.conditions.map(encodeFilterNode)
+    return node.combinator === 'and' ? { and: conditions } : { or: conditions }
+  }
+  return node.option === 'is-true' || node.option === 'is-false'
+    ? [node.column, node.option]
+    : [node.column, node.option, node.value]
+}
+
+function decodeFilter(encoded: unknown[]): Filter | null {
+  const [columnKey, option, value] = encoded
+  const column = columns.find(col => col.key === columnKey)
+  if (!column || !getFilterOptions(column).includes(option as FilterOption)) return null
+
+  const filterOption = option as FilterOption
+  if (filterOption === 'is-true' || filterOption === 'is-false') {
+    return { column: column.key, option: filterOption, value: '' }
+  }
+  const expectsList = filterOption === 'between' || isMultiValueOption(filterOption)
+  if (expectsList) {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return null
+    return { column: column.key, option: filterOption, value: value as string[] }
+  }
+  if (typeof value !== 'string') return null
+  if (filterOption === 'matches-regex' && value.length > MAX_REGEX_LENGTH) return null
+  return { column: column.key, option: filterOption, value }
+}
+
+function decodeFilterNode(encoded: unknown): FilterNode | null {
+  if (Array.isArray(encoded)) return decodeFilter(encoded)
+  if (typeof encoded !== 'object' || encoded === null) return null
+
+  const record = encoded as Record<string, unknown>
+  const combinator = Array.isArray(record.and) ? 'and' : Array.isArray(record.or) ? 'or' : null
+  if (!combinator) return null
+  const conditions = (record[combinator] as unknown[])
+    .map(decodeFilterNode)
+    .filter((node): node is FilterNode => node !== null)
+  return { combinator, conditions }
+}
+
+export function encodeFilters(filters: FilterGroup): string {
+  return JSON.stringify(encodeFilterNode(filters))
+}
+
+export function decodeFilters(value: string): FilterGroup {
+  try {
+    const node = decodeFilterNode(JSON.parse(value))
+    return node && isFilterGroup(node) ? node : emptyFilterGroup()
+  } catch {
+    return emptyFilterGroup()
+  }
+}
+
+function encodeSort(sort: SortKey[]): string {
+  return sort.map(key => `${key.direction === 'desc' ? '-' : ''}${key.column}`).join(',')
+}
+
+function getParam(params: SearchParamsInput, key: string): string | undefined {
+  if (params instanceof URLSearchParams) return params.get(key) ?? undefined
+  const value = params[key]
+  return Array.isArray(value) ? value[0] : value
+}
+
+export function parseTableState(params: SearchParamsInput): TableState {
+  const state: TableState = { ...defaultTableState }
+
+  const search = getParam(params, 'q')
+  if (search) state.search = search.slice(0, MAX_SEARCH_LENGTH)
+
+  const sort = getParam(params, 'sort')
+  if (sort === RELEVANCE_SORT) {
+    state.sort = []
+  } else if (sort) {
+    const keys: SortKey[] = []
+    for (const item of sort.split(',')) {
+      const column = item.replace(/^-/, '')
+      const known = columns.some(col => col.key === column) || column === MATCH_SCORE_COLUMN.key
+      if (known && !keys.some(key => key.column === column)) {
+        keys.push({ column, direction: item.startsWith('-') ? 'desc' : 'asc' })
+      }
+    }
+    if (keys.length > 0) state.sort = keys
+  }
+
+  const cols = getParam(params, 'cols')
+  if (cols !== undefined) {
+    const selected = Array.from(new Set(cols.split(','))).filter(key => columns.some(col => col.key === key))
+    if (selected.length > 0) state.selectedColumns = selected
+  }
+
+  const filters = getParam(params, 'filters')
+  if (filters) state.filters = decodeFilters(filters)
+
+  const compare = getParam(params, 'compare')
+  if (compare) {
+    state.compare = Array.from(new Set(compare.split(',').filter(slug => SLUG_PATTERN.test(slug)))).slice(0, MAX_COMPARED_VENDORS)
+  }
+  state.comparing = getParam(params, 'view') === 'compare' && state.compare.length > 0
+
+  const weights = getParam(params, 'w')
+  if (weights) state.weights = decodeWeights(weights)
+
+  const page = getParam(params, 'page')
+  if (page && /^\d+$/.test(page) && Number(page) > 0) state.page = Number(page)
+
+  const pageSize = getParam(params, 'pageSize')
+  if (pageSize === 'all') state.pageSize = ALL_ROWS
+  else if (pageSize && PAGE_SIZES.includes(Number(pageSize))) state.pageSize = Number(pageSize)
+
+  return state
+}
+
+export function serializeTableState(state: TableState): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (state.search.trim() !== '') params.set('q', state.search)
+
+  const sort = encodeSort(state.sort)
+  if (sort !== encodeSort(defaultTableState.sort)) params.set('sort', sort === '' ? RELEVANCE_SORT : sort)
+
+  const selected = state.selectedColumns.filter(key => columns.some(col => col.key === key))
+  if (selected.join(',') !== defaultTableState.selectedColumns.join(',')) params.set('cols', selected.join(','))
+
+  if (state.filters.conditions.length > 0) params.set('filters', encodeFilters(state.filters))
+
+  if (state.compare.length > 0) params.set('compare', state.compare.join(','))
+  if (state.comparing && state.compare.length > 0) params.set('view', 'compare')
+
+  const weights = encodeWeights(state.weights)
+  if (weights) params.set('w', weights)
+
+  if (state.page !== defaultTableState.page) params.set('page', String(state.page))
+  if (state.pageSize !== defaultTableState.pageSize) {
+    params.set('pageSize', state.pageSize === ALL_ROWS ? 'all' : String(state.pageSize))
+  }
+
+  return params
+}
+
+/** The query string for `state`, including the leading `?`, or an empty string for the default view. */
+export function toQueryString(state: TableState): string {
+  const query = serializeTableState(state).toString()
+  return query ? `?${query}` : ''
+}
@@ -0,0 +1,18 @@
+/**
+ * Attribute-level differences between two versions of a vendor, used to preview submissions
+ * and to review them in the moderation queue.
+ */
+import { columns, type Column, type VendorData, type VendorValue } from "@/lib/vendor-schema"
+
+export type VendorChange = {
+  column: Column
+  before: VendorValue | undefined
+  after: VendorValue | undefined
+}
+
+/** Changes from `before` to `after` in schema order; a new vendor (`before` undefined) lists every set attribute. */
+export function diffVendors(before: VendorData | undefined, after: VendorData): VendorChange[] {
+  return columns
+    .map(column => ({ column, before: before?.[column.key], after: after[column.key] }))
+    .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after))
+}
@@ -0,0 +1,233 @@
+/**
+ * Schema for the vendor dataset in `data/vendors/`.
+ *
+ * Every vendor lives in its own JSON file named after its slug (e.g. `vectara.json`).
+ * The attributes a file may contain are the `columns` declared below, each with a
+ * `ColumnType` that decides how the value is validated, rendered, sorted and filtered.
+ * `validateVendor` checks a parsed file against `columns` and throws a
+ * `VendorValidationError` naming the offending file and field, so a bad pull request
+ * fails the build instead of rendering a broken row.
+ *
+ * Any attribute may also be written as `{ "value": ..., "source": "https://...", "verifiedAt": "YYYY-MM-DD" }`
+ * to record where the value came from and when it was last checked; `parseVendor` returns that
+ * `Provenance` separately from the plain values.
+ */
+
+export type ColumnType = 'text' | 'boolean' | 'enum' | 'number' | 'currency' | 'tags' | 'url' | 'date'
+
+export type VendorValue = string | number | boolean | string[]
+
+/** Groups of related columns, in the order they are listed in the column picker and on detail pages. */
+export const columnCategories = ['Overview', 'Pricing', 'Deployment', 'Models', 'Retrieval', 'Data', 'Developer', 'Compliance', 'Links'] as const
+
+export type ColumnCategory = typeof columnCategories[number]
+
+export type Column = {
+  key: string
+  label: string
+  type: ColumnType
+  category: ColumnCategory
+  required?: boolean
+  /** Allowed values for `enum` columns, in display order; for `tags` columns, the only tags allowed, if set. */
+  options?: string[]
+  /** ISO 4217 code for `currency` columns. */
+  currency?: string
+  /** Whether the column is shown in the table by default; hidden columns can still be picked, and appear on detail pages. */
+  defaultVisible?: boolean
+}
+
+export type VendorData = {
+  slug: string
+  name: string
+  [key: string]: VendorValue | undefined
+}
+
+/** Where an attribute's value came from, and when it was last checked against that source. */
+export type Provenance = {
+  source?: string
+  verifiedAt?: string
+}
+
+/** Provenance by column key, for the attributes of one vendor that declare any. */
+export type VendorProvenance = Record<string, Provenance>
+
+export const columns: Column[] = [
+  { key: 'name', label: 'Name', type: 'text', category: 'Overview', required: true },
+  { key: 'usp', label: 'USP', type: 'text', category: 'Overview', required: true },
+  { key: 'oss', label: 'Open Source', type: 'boolean', category: 'Overview', required: true },
+  {
+    key: 'pricing',
+    label: 'Pricing',
+    type: 'enum',
+    category: 'Pricing',
+    required: true,
+    options: ['Free', 'Freemium', 'Usage-based', 'Subscription', 'Enterprise']
+  },
+  { key: 'startingPrice', label: 'Starting Price (per month)', type: 'currency', category: 'Pricing', currency: 'USD' },
+  { key: 'features', label: 'Features', type: 'tags', category: 'Overview' },
+  {
+    key: 'deployment',
+    label: 'Deployment',
+    type: 'tags',
+    category: 'Deployment',
+    options: ['SaaS', 'Self-hosted', 'VPC']
+  },
+  { key: 'license', label: 'License', type: 'text', category: 'Deployment', defaultVisible: false },
+  { key: 'llms', label: 'Supported LLMs', type: 'tags', category: 'Models', defaultVisible: false },
+  { key: 'embeddingModels', label: 'Embedding Models', type: 'tags', category: 'Models', defaultVisible: false },
+  { key: 'vectorStores', label: 'Vector Stores', type: 'tags', category: 'Retrieval', defaultVisible: false },
+  { key: 'hybridSearch', label: 'Hybrid Search', type: 'boolean', category: 'Retrieval', defaultVisible: false },
+  { key: 'reranking', label: 'Reranking', type: 'boolean', category: 'Retrieval', defaultVisible: false },
+  { key: 'connectors', label: 'Connectors', type: 'tags', category: 'Data', defaultVisible: false },
+  { key: 'chunking', label: 'Chunking Strategies', type: 'tags', category: 'Data', defaultVisible: false },
+  { key: 'evalTooling', label: 'Eval Tooling', type: 'tags', category: 'Developer', defaultVisible: false },
+  { key: 'sdkLanguages', label: 'SDK Languages', type: 'tags', category: 'Developer', defaultVisible: false },
+  {
+    key: 'compliance',
+    label: 'Compliance',
+    type: 'tags',
+    category: 'Compliance',
+    options: ['SOC 2', 'HIPAA', 'GDPR', 'ISO 27001']
+  },
+  { key: 'website', label: 'Website', type: 'url', category: 'Links' },
+  { key: 'founded', label: 'Founded', type: 'number', category: 'Overview' },
+  { key: 'lastVerified', label: 'Last Verified', type: 'date', category: 'Overview' },
+  { key: 'description', label: 'Description', type: 'text', category: 'Overview', defaultVisible: false },
+  { key: 'docsUrl', label: 'Documentation', type: 'url', category: 'Links', defaultVisible: false },
+  { key: 'pricingUrl', label: 'Pricing Page', type: 'url', category: 'Links', defaultVisible: false },
+  { key: 'githubUrl', label: 'GitHub', type: 'url', category: 'Links', defaultVisible: false }
+]
+
+export const defaultVisibleColumns = columns.filter(column => column.defaultVisible !== false).map(column => column.key)
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export class VendorValidationError extends Error {
+  readonly file: string
+  readonly field: string
+  readonly reason: string
+
+  constructor(file: string, field: string, reason: string) {
+    super(`${file}: field "${field}" ${reason}`)
+    this.name = 'VendorValidationError'
+    this.file = file
+    this.field = field
+    this.reason = reason
+  }
+}
+
+/** Returns why `value` is not valid for `column`, or `null` when it is. */
+export function checkValue(column: Column, value: unknown): string | null {
+  switch (column.type) {
+    case 'text':
+    case 'enum':
+      if (typeof value !== 'string') return `must be a string, got ${typeof value}`
+      if (value.trim() === '') return 'must not be empty'
+      if (column.type === 'enum' && !column.options?.includes(value)) {
+        return `must be one of: ${column.options?.join(', ')} (got "${value}")`
+      }
+      return null
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `must be true or false, got ${JSON.stringify(value)}`
+    case 'number':
+    case 'currency':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `must be a number, got ${JSON.stringify(value)}`
+      if (column.type === 'currency' && value < 0) return 'must not be negative'
+      return null
+    case 'tags':
+      if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string' || tag.trim() === '')) {
+        return 'must be a list of non-empty strings'
+      }
+      if (column.options) {
+        const unknownTag = value.find(tag => !column.options?.includes(tag))
+        if (unknownTag !== undefined) return `may only contain: ${column.options.join(', ')} (got "${unknownTag}")`
+      }
+      return null
+    case 'url':
+      if (typeof value !== 'string') return `must be a URL string, got ${typeof value}`
+      try {
+        const url = new URL(value)
+        return url.protocol === 'https:' || url.protocol === 'http:' ? null : 'must be an http(s) URL'
+      } catch {
+        return `must be a valid URL (got "${value}")`
+      }
+    case 'date':
+      // `Date` rolls impossible days like 2024-02-30 over into the next month, so they must round-trip.
+      if (
+        typeof value !== 'string' ||
+        !DATE_PATTERN.test(value) ||
+        Number.isNaN(Date.parse(value)) ||
+        new Date(value).toISOString().slice(0, 10) !== value
+      ) {
+        return `must be a YYYY-MM-DD date, got ${JSON.stringify(value)}`
+      }
+      return null
+  }
+}
+
+/** Whether `value` is an attribute written with its provenance, i.e. `{ "value": ... }`. */
+function isAnnotatedValue(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'value' in value
+}
+
+function parseProvenance(file: string, key: string, annotated: Record<string, unknown>): Provenance {
+  const unknownKey = Object.keys(annotated).find(field => !['value', 'source', 'verifiedAt'].includes(field))
+  if (unknownKey) {
+    throw new VendorValidationError(file, `${key}.${unknownKey}`, 'is not allowed (expected value, source, verifiedAt)')
+  }
+
+  const provenance: Provenance = {}
+  if (annotated.source !== undefined) {
+    const problem = checkValue({ key: 'source', label: 'Source', type: 'url', category: 'Links' }, annotated.source)
+    if (problem) throw new VendorValidationError(file, `${key}.source`, problem)
+    provenance.source = annotated.source as string
+  }
+  if (annotated.verifiedAt !== undefined) {
+    const problem = checkValue({ key: 'verifiedAt', label: 'Verified', type: 'date', category: 'Overview' }, annotated.verifiedAt)
+    if (problem) throw new VendorValidationError(file, `${key}.verifiedAt`, problem)
+    provenance.verifiedAt = annotated.verifiedAt as string
+  }
+  return provenance
+}
+
+/** Validates a vendor file and splits it into plain attribute values and their provenance. */
+export function parseVendor(file: string, slug: string, raw: unknown): { vendor: VendorData, provenance: VendorProvenance } {
+  if (!SLUG_PATTERN.test(slug)) {
+    throw new VendorValidationError(file, 'slug', `"${slug}" must be lowercase words separated by hyphens`)
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new VendorValidationError(file, '(root)', 'must be a JSON object')
+  }
+
+  const record = raw as Record<string, unknown>
+  const knownKeys = columns.map(column => column.key)
+  const unknownKey = Object.keys(record).find(key => !knownKeys.includes(key))
+  if (unknownKey) {
+    throw new VendorValidationError(file, unknownKey, `is not part of the vendor schema (expected one of: ${knownKeys.join(', ')})`)
+  }
+
+  const vendor: Record<string, VendorValue> = { slug }
+  const provenance: VendorProvenance = {}
+  for (const column of columns) {
+    let value = record[column.key]
+    if (isAnnotatedValue(value)) {
+      provenance[column.key] = parseProvenance(file, column.key, value)
+      value = value.value
+    }
+    if (value === undefined || value === null) {
+      if (column.required) throw new VendorValidationError(file, column.key, 'is required')
+      continue
+    }
+    const problem = checkValue(column, value)
+    if (problem) throw new VendorValidationError(file, column.key, problem)
+    vendor[column.key] = value as VendorValue
+  }
+
+  return { vendor: vendor as VendorData, provenance }
+}
+
+export function validateVendor(file: string, slug: string, raw: unknown): VendorData {
+  return parseVendor(file, slug, raw).vendor
+}
@@ -0,0 +1,95 @@
+/**
+ * Server-side loader for the vendor dataset.
+ *
+ * Reads every `*.json` file in `data/vendors/`, validates it against the vendor schema and
+ * returns the vendors sorted by name. Any invalid file throws, which fails `next build`
+ * with the file and field that need fixing.
+ *
+ * The files are read once per server process (on every call in development, where they are edited
+ * while the server runs); `clearVendorCache` makes the next call read them again.
+ */
+import { promises as fs } from 'fs'
+import path from 'path'
+import { parseVendor, VendorValidationError, type VendorData, type VendorProvenance } from '@/lib/vendor-schema'
+
+export const VENDORS_DIR = path.join(process.cwd(), 'data', 'vendors')
+
+export type VendorEntry = {
+  vendor: VendorData
+  provenance: VendorProvenance
+}
+
+async function readVendorFile(fileName: string): Promise<VendorEntry> {
+  const file = path.join('data', 'vendors', fileName)
+  const contents = await fs.readFile(path.join(VENDORS_DIR, fileName), 'utf8')
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(contents)
+  } catch (error) {
+    throw new VendorValidationError(file, '(root)', `is not valid JSON: ${(error as Error).message}`)
+  }
+
+  return parseVendor(file, path.basename(fileName, '.json'), raw)
+}
+
+async function readVendorEntries(): Promise<VendorEntry[]> {
+  const fileNames = (await fs.readdir(VENDORS_DIR)).filter(fileName => fileName.endsWith('.json'))
+  const entries = await Promise.all(fileNames.map(readVendorFile))
+
+  const seenNames = new Map<string, string>()
+  for (const { vendor } of entries) {
+    const key = vendor.name.toLowerCase()
+    const existing = seenNames.get(key)
+    if (existing) {
+      throw new VendorValidationError(`data/vendors/${vendor.slug}.json`, 'name', `"${vendor.name}" duplicates data/vendors/${existing}.json`)
+    }
+    seenNames.set(key, vendor.slug)
+  }
+
+  return entries.sort((a, b) => a.vendor.name.localeCompare(b.vendor.name))
+}
+
+let cachedEntries: Promise<VendorEntry[]> | null = null
+
+/** Every vendor together with the provenance of its attributes, sorted by name. */
+export async function getVendorEntries(): Promise<VendorEntry[]> {
+  if (process.env.NODE_ENV === 'development') return readVendorEntries()
+  if (!cachedEntries) {
+    cachedEntries = readVendorEntries()
+    // An invalid file is reported again on the next call rather than cached.
+    cachedEntries.catch(() => {
+      cachedEntries = null
+    })
+  }
+  return (await cachedEntries).slice()
+}
+
+/** Call after writing to `data/vendors/`. */
+export function clearVendorCache(): void {
+  cachedEntries = null
+}
+
+export async function getVendors(): Promise<VendorData[]> {
+  return (await getVendorEntries()).map(entry => entry.vendor)
+}
+
+export async function getVendor(slug: string): Promise<VendorData | undefined> {
+  const vendors = await getVendors()
+  return vendors.find(vendor => vendor.slug === slug)
+}
+
+/**
+ * The vendor other than `slug` that is already called `name`, compared case-insensitively. Writing
+ * a file with that name would make every later load of the catalogue throw.
+ */
+export async function findNameConflict(name: string, slug: string): Promise<VendorData | undefined> {
+  const vendors = await getVendors()
+  return vendors.find(vendor => vendor.slug !== slug && vendor.name.toLowerCase() === name.toLowerCase())
+}
+
+/** Provenance of every vendor's attributes, keyed by vendor slug. */
+export async function getProvenance(): Promise<Record<string, VendorProvenance>> {
+  const entries = await getVendorEntries()
+  return Object.fromEntries(entries.map(entry => [entry.vendor.slug, entry.provenance]))
+}
@@ -1,4 +1,14 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Native module: loaded from node_modules at runtime rather than bundled.
+    serverComponentsExternalPackages: ['re2'],
+  },
+  webpack: (config, { isServer }) => {
+    // Regex filters only run on the server (see `toRegExp` in `lib/filters.ts`).
+    if (!isServer) config.resolve.alias['re2'] = false;
+    return config;
+  },
+};
 
 export default nextConfig;
@@ -0,0 +1,116 @@
+/**
+ * Rebuilds `data/changelog.json` from the git history of `data/vendors/`.
+ *
+ * Usage: `npm run changelog`. Only committed history is read, so the `changelog` workflow runs it
+ * after each data change lands on main and commits the result.
+ */
+import { execFileSync } from 'child_process'
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { CHANGELOG_FILE, UNTRACKED_COLUMNS, type ChangeSet } from "@/lib/changelog"
+import { diffVendors } from "@/lib/vendor-diff"
+import { checkValue, type VendorData } from "@/lib/vendor-schema"
+
+function git(args: string[]): string {
+  return execFileSync('git', args, { encoding: 'utf8', maxBuffer: 64 * 1024 * 1024, stdio: ['ignore', 'pipe', 'ignore'] })
+}
+
+/**
+ * A vendor file as it was at some commit. Older versions may predate the current schema, so the
+ * file is only unwrapped (`{ value, source, verifiedAt }` → value), not validated.
+ */
+function readVersion(commit: string, file: string): VendorData | null {
+  try {
+    const raw = JSON.parse(git(['show', `${commit}:./${file}`])) as Record<string, unknown>
+    const vendor: Record<string, unknown> = { slug: path.basename(file, '.json') }
+    for (const [key, value] of Object.entries(raw)) {
+      const isAnnotated = typeof value === 'object' && value !== null && !Array.isArray(value) && 'value' in value
+      vendor[key] = isAnnotated ? (value as { value: unknown }).value : value
+    }
+    return vendor as VendorData
+  } catch {
+    return null
+  }
+}
+
+/**
+ * An id for a change set derived from what changed rather than from the commit, so it survives
+ * rebases and squash merges. `seen` counts earlier identical change sets, which get a suffix.
+ */
+function getChangeSetId(changeSet: Omit<ChangeSet, 'id' | 'date'>, seen: Map<string, number>): string {
+  const hash = createHash('sha1')
+    .update(JSON.stringify([changeSet.vendor, changeSet.type, changeSet.changes]))
+    .digest('hex')
+    .slice(0, 10)
+  const count = (seen.get(hash) ?? 0) + 1
+  seen.set(hash, count)
+  return count === 1 ? `${changeSet.vendor}-${hash}` : `${changeSet.vendor}-${hash}-${count}`
+}
+
+async function main() {
+  try {
+    if (git(['rev-parse', '--is-shallow-repository']).trim() === 'true') {
+      console.log(`Changelog: shallow clone, keeping ${path.relative(process.cwd(), CHANGELOG_FILE)}.`)
+      return
+    }
+  } catch {
+    console.log(`Changelog: no git history, keeping ${path.relative(process.cwd(), CHANGELOG_FILE)}.`)
+    return
+  }
+
+  // Author dates, unlike commit dates, survive a rebase.
+  const commits = git(['log', '--first-parent', '--reverse', '--format=%H %aI', '--', 'data/vendors'])
+    .split('\n')
+    .filter(line => line !== '')
+    .map(line => {
+      const [hash, date] = line.split(' ')
+      return { hash, date }
+    })
+
+  const changelog: ChangeSet[] = []
+  const seen = new Map<string, number>()
+  const record = (changeSet: Omit<ChangeSet, 'id'>) => changelog.push({ id: getChangeSetId(changeSet, seen), ...changeSet })
+  let previous = new Map<string, VendorData>()
+  for (const commit of commits) {
+    const files = git(['ls-tree', '--name-only', commit.hash, 'data/vendors/'])
+      .split('\n')
+      .filter(file => file.endsWith('.json'))
+
+    const current = new Map<string, VendorData>()
+    for (const file of files) {
+      const slug = path.basename(file, '.json')
+      // A file that does not parse at this commit keeps its previous version.
+      const vendor = readVersion(commit.hash, file) ?? previous.get(slug)
+      if (vendor) current.set(slug, vendor)
+    }
+
+    const date = commit.date
+    current.forEach((vendor, slug) => {
+      const before = previous.get(slug)
+      if (!before) {
+        record({ date, vendor: slug, name: vendor.name, type: 'added', changes: [] })
+        return
+      }
+      const changes = diffVendors(before, vendor)
+        .filter(change => !UNTRACKED_COLUMNS.includes(change.column.key))
+        // A previous value that the current schema rejects was migrated to a new format, not changed.
+        .filter(change => change.before === undefined || checkValue(change.column, change.before) === null)
+        .map(change => ({ column: change.column.key, before: change.before, after: change.after }))
+      if (changes.length > 0) record({ date, vendor: slug, name: vendor.name, type: 'changed', changes })
+    })
+    previous.forEach((vendor, slug) => {
+      if (!current.has(slug)) record({ date, vendor: slug, name: vendor.name, type: 'removed', changes: [] })
+    })
+    previous = current
+  }
+
+  changelog.reverse()
+  await fs.writeFile(CHANGELOG_FILE, JSON.stringify(changelog, null, 2) + '\n')
+  console.log(`Changelog: ${changelog.length} change sets from ${commits.length} dataset versions.`)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,39 @@
+/**
+ * Prints the stalest vendor attributes, so outdated pricing and features show up in every build log.
+ *
+ * Usage: `npm run freshness [-- --limit 50]`
+ */
+import { ageInDays, getFreshnessEntries, isStale, STALE_AFTER_DAYS } from "@/lib/freshness"
+import { getProvenance, getVendors } from "@/lib/vendors"
+
+const DEFAULT_LIMIT = 20
+
+function parseLimit(args: string[]): number {
+  const index = args.indexOf('--limit')
+  const limit = index === -1 ? NaN : Number(args[index + 1])
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_LIMIT
+}
+
+async function main() {
+  const limit = parseLimit(process.argv.slice(2))
+  const [vendors, provenance] = await Promise.all([getVendors(), getProvenance()])
+  const entries = getFreshnessEntries(vendors, provenance)
+  const stale = entries.filter(entry => entry.verifiedAt === undefined || isStale(entry.verifiedAt))
+
+  console.log(`Data freshness: ${stale.length} of ${entries.length} attributes not verified in the last ${STALE_AFTER_DAYS} days.`)
+  if (entries.length === 0) return
+
+  console.log(`\nStalest ${Math.min(limit, entries.length)}:`)
+  console.table(entries.slice(0, limit).map(entry => ({
+    vendor: entry.vendor.slug,
+    attribute: entry.column.key,
+    verified: entry.verifiedAt ?? 'never',
+    'age (days)': entry.verifiedAt === undefined ? '' : ageInDays(entry.verifiedAt),
+    source: entry.source ?? ''
+  })))
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})